@@ -1,5 +1,5 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile } from 'obsidian';
-import { debounce } from 'lodash';
+import { App, CachedMetadata, Editor, EventRef, Events, getAllTags, ItemView, MarkdownView, Modal, moment, Notice, Plugin, PluginSettingTab, Setting, TAbstractFile, TFile, WorkspaceLeaf } from 'obsidian';
+import { cloneDeep } from 'lodash';
 
 // Remember to rename these classes and interfaces!
 
@@ -14,14 +14,88 @@ interface CognitiveWeightData {
 
 interface MyPluginSettings {
 	mySetting: string;
-	decayLambda: number;
-	betaCoefficient: number;
 	initialWeight: number;
 	dailyUpdateTime: string;
-	alpha: number;
-	deepseekApiKey: string;
+	scoringPreset: ScoringPresetId | 'custom';
+	scoring: ScoringProfile;
+	provider: ProviderId;
+	providers: Record<ProviderId, ProviderConfig>;
 	temperature: number;
 	maxTokens: number;
+	tombstoneGraceDays: number;
+	historyRetentionDays: number;
+	// 超过这么多秒没有输入视为空闲
+	idleTimeout: number;
+	// 不统计交互的文件夹、标签和路径通配符
+	ignoredFolders: string[];
+	ignoredTags: string[];
+	ignoredPatterns: string[];
+	frontmatterSync: boolean;
+	// 定时同步间隔（分钟），0 表示只手动同步
+	frontmatterSyncInterval: number;
+	frontmatterProperties: Record<FrontmatterField, string>;
+	questionsPerNote: number;
+	// 同时发往服务商的出题请求数
+	generationConcurrency: number;
+	// 每月预算（美元），0 表示不限
+	monthlyBudget: number;
+	schedulerAlgorithm: 'sm2' | 'fsrs';
+	requestRetention: number;
+	questionTypes: QuestionType[];
+	localFallback: boolean;
+	centralityMetric: CentralityMetric;
+	// 界面语言，auto 跟随 Obsidian
+	language: Locale | 'auto';
+	questionLanguage: QuestionLanguage | 'auto';
+}
+
+type ProviderId = 'deepseek' | 'openai-compatible' | 'ollama';
+
+interface ProviderConfig {
+	baseUrl: string;
+	model: string;
+	apiKey: string;
+	// 认证头名称，为空表示不发送认证信息
+	authHeader: string;
+	// 服务是否支持 JSON 输出模式（response_format / format）
+	jsonMode: boolean;
+	// 每百万 token 的价格（美元），用于估算费用
+	inputPrice: number;
+	outputPrice: number;
+}
+
+type CognitiveStage = '新手' | '进阶' | '专家';
+
+type FrontmatterField = 'weight' | 'stage' | 'due' | 'strength';
+
+type CentralityMetric = 'pagerank' | 'betweenness' | 'hub' | 'authority' | 'indegree';
+
+// 阶段迁移规则的输入：平滑后的得分、最近的复习错误率和在当前阶段停留的天数
+interface StageInputs {
+	complexity: number;
+	engagement: number;
+	centrality: number;
+	errorRate: number;
+	daysInStage: number;
+}
+
+type StageTransitionKey = '新手→进阶' | '进阶→专家' | '专家→进阶' | '进阶→新手';
+
+interface StageTransitionRecord {
+	from: CognitiveStage;
+	to: CognitiveStage;
+	at: number;
+	// 触发迁移时的输入
+	inputs: StageInputs;
+}
+
+interface NoteStageState {
+	stage: CognitiveStage;
+	enteredAt: number;
+	ema: Omit<StageInputs, 'daysInStage'>;
+	// 平滑值最近一次推进的日期（YYYY-MM-DD），每天最多推进一次
+	emaDay?: string;
+	transitions: StageTransitionRecord[];
 }
 
 interface CognitiveStageScores {
@@ -36,8 +110,15 @@ interface InteractionDuration {
 	contentLength: number;
 	durations: number[];
 	linkCount: number;
+	// 有效阅读与编辑时长（毫秒），不含空闲时间
+	readingTime: number;
+	editingTime: number;
+	// 读到的最大滚动深度，0-1
+	scrollDepth: number;
 }
 
+type EngagementMode = 'reading' | 'editing';
+
 interface MemoryStrengthData {
 	EF: number;
 	consecutiveSuccess: number;
@@ -45,1102 +126,6666 @@ interface MemoryStrengthData {
 	lastTestResult: boolean;
 	historicalSuccessRate: number[];
 	lastReviewTime?: number;
+	// 调度状态：间隔（天）、到期时间、FSRS 稳定性与难度
+	interval: number;
+	due: number;
+	stability: number;
+	difficulty: number;
+	lapses: number;
+	reps: number;
+	// 按布鲁姆层级统计的答题情况
+	bloomStats?: Record<number, BloomLevelStats>;
+	// 按章节统计的答题情况，键见 sectionKey
+	sectionStats?: Record<string, SectionStats>;
 }
 
-const DEFAULT_SETTINGS: MyPluginSettings = {
-	mySetting: 'default',
-	decayLambda: 0.05,
-	betaCoefficient: 0.2,
-	initialWeight: 0.5,
-	dailyUpdateTime: "02:00",
-	alpha: 1,
-	deepseekApiKey: '',
-	temperature: 0.7,
-	maxTokens: 1000
+interface BloomLevelStats {
+	correct: number;
+	total: number;
 }
 
-class DataManager {
-	private plugin: MyPlugin;
-	private settings: MyPluginSettings;
-	private data: CognitiveWeightData = {};
-	private interactionDurations: Record<string, InteractionDuration> = {};
-	private hysteresis = {
-		'新手→进阶': (scores: any) => (scores['整合度'] > 0.6) && (scores['复杂度'] > 0.4),
-		'进阶→专家': (scores: any) => (scores['交互质量'] > 0.7) && (this.calculateEMA(scores['复杂度']) > 0.5),
-		'专家→进阶': (scores: any) => (this.calculateEMA(scores['错误率']) > 0.3) && (scores['持续时间'] > 7)
-	} as const;
-	private memoryData: Record<string, MemoryStrengthData> = {};
+interface SectionStats extends BloomLevelStats {
+	lastAsked: number;
+}
 
-	constructor(plugin: MyPlugin) {
-		this.plugin = plugin;
-		this.settings = plugin.settings;
+interface QuestionBankEntry {
+	// 生成题目时笔记内容的哈希，内容变化后题目失效
+	contentHash: string;
+	questions: Question[];
+	updatedAt: number;
+	// 手动编辑过的题目不随笔记内容变化而失效
+	edited: boolean;
+	// 下次复习时抽取的题目序号
+	nextIndex: number;
+}
+
+// 每条笔记每天一条记录，保存当天结束时的状态和当天的累计次数
+interface HistoryEntry {
+	day: string;
+	weight: number;
+	strength: number;
+	interactions: number;
+	reviews: number;
+	// 评为“重来”的次数
+	lapses: number;
+	stage?: CognitiveStage;
+}
+
+// 按文件路径存储的数据分区
+type PathRecordSection = 'weights' | 'memory' | 'stats' | 'questions' | 'history' | 'stages';
+
+interface Tombstone {
+	deletedAt: number;
+	records: Partial<Record<PathRecordSection, any>>;
+}
+
+interface PruneReport {
+	expiredTombstones: string[];
+	orphanedRecords: string[];
+}
+
+type ScoringPresetId = 'standard' | 'network' | 'long-term' | 'strict';
+
+// 认知权重与认知阶段的全部系数
+interface ScoringProfile {
+	// 时间衰减：α·w₀·e^(−λ·√天数)，λ 随一年中的日期按正弦小幅波动
+	alpha: number;
+	decayLambda: number;
+	seasonalAmplitude: number;
+	// 交互加成：β·(1 + s·tanh((N − m) / w))·(1 − 1 / (1 + log₂(N + 1)))
+	betaCoefficient: number;
+	interactionSaturation: number;
+	interactionMidpoint: number;
+	interactionSpread: number;
+	// 中心度加成 c·中心度^0.7，不计入每日衰减的基础权重
+	centralityBonus: number;
+	// 记忆系数 1 − m·(1 − 记忆强度)，m 为0时不受复习影响
+	memoryInfluence: number;
+	// 认知阶段阈值与迁移余量
+	expertComplexity: number;
+	expertCentrality: number;
+	advancedEngagement: number;
+	advancedCentrality: number;
+	stageMargin: number;
+	// 阶段迁移的错误率阈值：进阶的升降共用一个阈值，专家升降之间留出区间
+	advancedErrorRate: number;
+	expertErrorRate: number;
+	expertDemoteErrorRate: number;
+	// 升级和降级前在当前阶段的最短停留天数
+	stageMinDaysUp: number;
+	stageMinDaysDown: number;
+}
+
+const SCORING_PRESETS: Record<ScoringPresetId, ScoringProfile> = {
+	'standard': {
+		alpha: 1,
+		decayLambda: 0.05,
+		seasonalAmplitude: 0.01,
+		betaCoefficient: 0.2,
+		interactionSaturation: 0.5,
+		interactionMidpoint: 3,
+		interactionSpread: 2,
+		centralityBonus: 0,
+		memoryInfluence: 0,
+		expertComplexity: 0.7,
+		expertCentrality: 0.6,
+		advancedEngagement: 0.4,
+		advancedCentrality: 0.3,
+		stageMargin: 0.05,
+		advancedErrorRate: 0.5,
+		expertErrorRate: 0.2,
+		expertDemoteErrorRate: 0.3,
+		stageMinDaysUp: 3,
+		stageMinDaysDown: 7
+	},
+	// 链接多、记得牢的笔记权重更高
+	'network': {
+		alpha: 1,
+		decayLambda: 0.05,
+		seasonalAmplitude: 0.01,
+		betaCoefficient: 0.2,
+		interactionSaturation: 0.5,
+		interactionMidpoint: 3,
+		interactionSpread: 2,
+		centralityBonus: 0.2,
+		memoryInfluence: 1,
+		expertComplexity: 0.7,
+		expertCentrality: 0.6,
+		advancedEngagement: 0.4,
+		advancedCentrality: 0.3,
+		stageMargin: 0.05,
+		advancedErrorRate: 0.5,
+		expertErrorRate: 0.2,
+		expertDemoteErrorRate: 0.3,
+		stageMinDaysUp: 3,
+		stageMinDaysDown: 7
+	},
+	// 衰减更慢，适合长期积累的知识库
+	'long-term': {
+		alpha: 1,
+		decayLambda: 0.02,
+		seasonalAmplitude: 0,
+		betaCoefficient: 0.3,
+		interactionSaturation: 0.5,
+		interactionMidpoint: 5,
+		interactionSpread: 3,
+		centralityBonus: 0.1,
+		memoryInfluence: 0.5,
+		expertComplexity: 0.7,
+		expertCentrality: 0.6,
+		advancedEngagement: 0.4,
+		advancedCentrality: 0.3,
+		stageMargin: 0.05,
+		advancedErrorRate: 0.5,
+		expertErrorRate: 0.2,
+		expertDemoteErrorRate: 0.3,
+		stageMinDaysUp: 3,
+		stageMinDaysDown: 7
+	},
+	// 阶段阈值更高，升级更难
+	'strict': {
+		alpha: 1,
+		decayLambda: 0.05,
+		seasonalAmplitude: 0.01,
+		betaCoefficient: 0.2,
+		interactionSaturation: 0.5,
+		interactionMidpoint: 3,
+		interactionSpread: 2,
+		centralityBonus: 0,
+		memoryInfluence: 0,
+		expertComplexity: 0.8,
+		expertCentrality: 0.7,
+		advancedEngagement: 0.5,
+		advancedCentrality: 0.4,
+		stageMargin: 0.1,
+		advancedErrorRate: 0.4,
+		expertErrorRate: 0.15,
+		expertDemoteErrorRate: 0.25,
+		stageMinDaysUp: 5,
+		stageMinDaysDown: 7
 	}
+};
+
+const SCORING_PRESET_NAMES: Record<ScoringPresetId, TranslationKey> = {
+	'standard': 'preset.standard',
+	'network': 'preset.network',
+	'long-term': 'preset.long-term',
+	'strict': 'preset.strict'
+};
+
+interface WeightBreakdown {
+	days: number;
+	lambda: number;
+	beta: number;
+	interactions: number;
+	centrality: number;
+	strength: number;
+	timeDecay: number;
+	interactionBoost: number;
+	// 每日衰减时写回 initialWeight 的部分
+	base: number;
+	centralityBonus: number;
+	memoryFactor: number;
+	total: number;
+}
+
+interface StageRule {
+	key: StageTransitionKey;
+	description: string;
+	test: (inputs: StageInputs) => boolean;
+}
+
+// 最近错误率的统计窗口
+const STAGE_ERROR_WINDOW = 10;
+
+// 统一的评分引擎：认知权重、阶段判定和阶段迁移都只从这里取系数
+class ScoringEngine {
+	constructor(private profile: ScoringProfile) {}
+
+	weight(record: CognitiveWeightData[string], now: number, centrality: number, strength: number): WeightBreakdown {
+		const p = this.profile;
+		const days = Math.max(0, (now - record.lastUpdated) / DAY_MS);
 
-	async loadData() {
-		this.data = (await this.plugin.loadData()) || {};
+		const startOfYear = new Date(new Date(now).getFullYear(), 0, 0);
+		const dayOfYear = Math.floor((now - startOfYear.getTime()) / DAY_MS);
+		const lambda = p.decayLambda + p.seasonalAmplitude * Math.sin(2 * Math.PI * dayOfYear / 365);
+		const timeDecay = p.alpha * record.initialWeight * Math.exp(-lambda * Math.sqrt(days));
+
+		const N = record.interactionCount;
+		const beta = p.betaCoefficient * (1 + p.interactionSaturation * Math.tanh((N - p.interactionMidpoint) / (p.interactionSpread || 1)));
+		const interactionBoost = beta * (1 - 1 / (1 + Math.log2(N + 1)));
+
+		const base = timeDecay + interactionBoost;
+		const centralityBonus = p.centralityBonus * Math.pow(centrality, 0.7);
+		const memoryFactor = 1 - p.memoryInfluence * (1 - strength);
+		return {
+			days, lambda, beta, interactions: N, centrality, strength,
+			timeDecay, interactionBoost, base, centralityBonus, memoryFactor,
+			total: (base + centralityBonus) * memoryFactor
+		};
 	}
 
-	async saveData() {
-		await this.plugin.saveData(this.data);
+	// 各项得分分别与阈值比较
+	stageChecks(scores: Pick<CognitiveStageScores, 'complexity' | 'engagement' | 'centrality'>) {
+		const p = this.profile;
+		return {
+			expertComplexity: scores.complexity > p.expertComplexity,
+			expertCentrality: scores.centrality > p.expertCentrality,
+			advancedEngagement: scores.engagement > p.advancedEngagement,
+			advancedCentrality: scores.centrality > p.advancedCentrality
+		};
 	}
 
-	getWeightData(filePath: string) {
-		return this.data[filePath];
+	detectStage(scores: CognitiveStageScores): CognitiveStage {
+		const checks = this.stageChecks(scores);
+		if (checks.expertComplexity && checks.expertCentrality) return '专家';
+		if (checks.advancedEngagement || checks.advancedCentrality) return '进阶';
+		return '新手';
 	}
 
-	updateInteraction(filePath: string) {
-		if (!this.data[filePath]) {
-			this.data[filePath] = {
-				initialWeight: this.plugin.settings.initialWeight,
-				lastUpdated: Date.now(),
-				interactionCount: 0,
-				previousEngagement: 0
-			};
+	// 迁移阈值在判定阈值上下各留出余量，并要求在当前阶段停留足够久，避免阶段来回跳动
+	transitionRules(): StageRule[] {
+		const p = this.profile;
+		const m = p.stageMargin;
+		const f = (n: number) => Number(n.toFixed(2));
+		return [
+			{
+				key: '新手→进阶',
+				description: t('rule.noviceToAdvanced', { days: p.stageMinDaysUp, errorRate: p.advancedErrorRate, engagement: f(p.advancedEngagement + m), centrality: f(p.advancedCentrality + m) }),
+				test: (inputs) => inputs.daysInStage >= p.stageMinDaysUp && inputs.errorRate < p.advancedErrorRate &&
+					(inputs.engagement > p.advancedEngagement + m || inputs.centrality > p.advancedCentrality + m)
+			},
+			{
+				key: '进阶→专家',
+				description: t('rule.advancedToExpert', { days: p.stageMinDaysUp, errorRate: p.expertErrorRate, complexity: f(p.expertComplexity + m), centrality: f(p.expertCentrality + m) }),
+				test: (inputs) => inputs.daysInStage >= p.stageMinDaysUp && inputs.errorRate < p.expertErrorRate &&
+					inputs.complexity > p.expertComplexity + m && inputs.centrality > p.expertCentrality + m
+			},
+			{
+				key: '专家→进阶',
+				description: t('rule.expertToAdvanced', { days: p.stageMinDaysDown, errorRate: p.expertDemoteErrorRate, complexity: f(p.expertComplexity - m), centrality: f(p.expertCentrality - m) }),
+				test: (inputs) => inputs.daysInStage >= p.stageMinDaysDown && (inputs.errorRate > p.expertDemoteErrorRate ||
+					inputs.complexity < p.expertComplexity - m || inputs.centrality < p.expertCentrality - m)
+			},
+			{
+				key: '进阶→新手',
+				description: t('rule.advancedToNovice', { days: p.stageMinDaysDown, errorRate: p.advancedErrorRate, engagement: f(p.advancedEngagement - m), centrality: f(p.advancedCentrality - m) }),
+				test: (inputs) => inputs.daysInStage >= p.stageMinDaysDown && (inputs.errorRate > p.advancedErrorRate ||
+					(inputs.engagement < p.advancedEngagement - m && inputs.centrality < p.advancedCentrality - m))
+			}
+		];
+	}
+
+	// 按迁移规则返回下一阶段，进阶阶段先检查升级再检查降级
+	nextStage(current: CognitiveStage, inputs: StageInputs): CognitiveStage {
+		for (const rule of this.transitionRules()) {
+			if (rule.key.startsWith(current + '→') && rule.test(inputs)) {
+				return rule.key.split('→')[1] as CognitiveStage;
+			}
 		}
-		this.data[filePath].interactionCount++;
-		this.data[filePath].lastUpdated = Date.now();
+		return current;
 	}
+}
 
-	calculateCurrentWeight(filePath: string): number {
-		const data = this.data[filePath];
-		if (!data) return 0;
+const DEFAULT_SETTINGS: MyPluginSettings = {
+	mySetting: 'default',
+	initialWeight: 0.5,
+	dailyUpdateTime: "02:00",
+	scoringPreset: 'standard',
+	scoring: SCORING_PRESETS['standard'],
+	provider: 'deepseek',
+	providers: {
+		'deepseek': {
+			baseUrl: 'https://api.deepseek.com/v1',
+			model: 'deepseek-chat',
+			apiKey: '',
+			authHeader: 'Authorization',
+			jsonMode: true,
+			inputPrice: 0.28,
+			outputPrice: 0.42
+		},
+		'openai-compatible': {
+			baseUrl: 'http://localhost:8000/v1',
+			model: '',
+			apiKey: '',
+			authHeader: 'Authorization',
+			jsonMode: false,
+			inputPrice: 0,
+			outputPrice: 0
+		},
+		'ollama': {
+			baseUrl: 'http://localhost:11434',
+			model: 'llama3',
+			apiKey: '',
+			authHeader: '',
+			jsonMode: true,
+			inputPrice: 0,
+			outputPrice: 0
+		}
+	},
+	temperature: 0.7,
+	maxTokens: 1000,
+	tombstoneGraceDays: 30,
+	historyRetentionDays: 365,
+	idleTimeout: 90,
+	ignoredFolders: [],
+	ignoredTags: [],
+	ignoredPatterns: [],
+	frontmatterSync: false,
+	frontmatterSyncInterval: 60,
+	frontmatterProperties: {
+		weight: 'mf-weight',
+		stage: 'mf-stage',
+		due: 'mf-due',
+		strength: 'mf-strength'
+	},
+	questionsPerNote: 1,
+	generationConcurrency: 2,
+	monthlyBudget: 0,
+	schedulerAlgorithm: 'sm2',
+	requestRetention: 0.9,
+	questionTypes: ['single'],
+	localFallback: true,
+	centralityMetric: 'pagerank',
+	language: 'auto',
+	questionLanguage: 'auto'
+}
 
-		const now = Date.now();
-		const daysElapsed = (now - data.lastUpdated) / (1000 * 60 * 60 * 24);
+type Locale = 'en' | 'zh-CN';
+
+// 出题语言，auto 表示与笔记的主要语言一致
+type QuestionLanguage = 'en' | 'zh-CN' | 'ja' | 'ko';
+
+// 语言名称用各自的写法，不随界面语言变化
+const QUESTION_LANGUAGE_NAMES: Record<QuestionLanguage, string> = {
+	'en': 'English',
+	'zh-CN': '简体中文',
+	'ja': '日本語',
+	'ko': '한국어'
+};
+
+const EN_STRINGS = {
+	'common.separator': '; ',
+	'common.comma': ', ',
+	'common.days': '{days} days',
+	'common.save': 'Save',
+	'common.cancel': 'Cancel',
+	'common.auto': 'Auto',
+
+	'stage.novice': 'Novice',
+	'stage.advanced': 'Advanced',
+	'stage.expert': 'Expert',
+
+	'metric.note': 'Note',
+	'metric.weight': 'Cognitive weight',
+	'metric.complexity': 'Complexity',
+	'metric.engagement': 'Engagement',
+	'metric.centrality': 'Centrality',
+	'metric.stage': 'Stage',
+	'metric.strength': 'Memory strength',
+	'metric.due': 'Next review',
+	'metric.interactions': 'Interactions',
+
+	'rule.noviceToAdvanced': 'At least {days} days in stage, error rate < {errorRate}, and engagement > {engagement} or centrality > {centrality}',
+	'rule.advancedToExpert': 'At least {days} days in stage, error rate < {errorRate}, complexity > {complexity} and centrality > {centrality}',
+	'rule.expertToAdvanced': 'At least {days} days in stage, and error rate > {errorRate}, complexity < {complexity} or centrality < {centrality}',
+	'rule.advancedToNovice': 'At least {days} days in stage, and error rate > {errorRate}, or engagement < {engagement} and centrality < {centrality}',
+
+	'command.detectStage': 'Detect cognitive stage',
+	'command.explainScore': 'Explain cognitive score for current note',
+	'command.openDashboard': 'Open cognitive dashboard',
+	'command.syncFrontmatter': 'Write cognitive metrics to frontmatter',
+	'command.syncFrontmatterCurrent': 'Write cognitive metrics to frontmatter of current note',
+	'command.openHistory': 'Open note history',
+	'command.pruneRecords': 'Prune orphaned records',
+	'command.updateWeights': 'Update cognitive weights',
+	'command.startReview': 'Start memory review',
+	'command.regenerateQuestions': 'Regenerate questions for current note',
+	'command.showReviewStats': 'Show review statistics',
+	'command.deleteQuestions': 'Delete questions for current note',
+	'command.editQuestions': 'Edit questions for current note',
+
+	'notice.stagesChanged': '{count} note(s) changed cognitive stage. See the cognitive dashboard for details.',
+	'notice.weightsUpdated': 'Cognitive weights updated ({days} day(s) applied)',
+	'notice.weightsUpToDate': 'Cognitive weights are up to date',
+	'notice.currentStage': 'Current cognitive stage: {stage}',
+	'notice.stageChanged': 'Stage change: {from} → {to}',
+	'notice.stageScores': 'Complexity: {complexity}\nEngagement: {engagement}\nCentrality: {centrality}',
+	'notice.writingFrontmatter': 'Writing frontmatter...',
+	'notice.frontmatterUpdatedCount': 'Updated the frontmatter of {count} note(s)',
+	'notice.frontmatterUpdated': 'Frontmatter updated',
+	'notice.frontmatterUpToDate': 'Frontmatter is up to date',
+	'notice.noDueFiles': 'No notes are due for review',
+	'notice.generationProgress': 'Generating review questions... {done}/{total}',
+	'notice.generationCancelled': 'Question generation cancelled',
+	'notice.budgetReached': 'Monthly budget of ${budget} reached. Question generation stops until next month or until the budget is raised.',
+	'notice.noValidQuestions': 'Could not generate any valid questions',
+	'notice.regeneratingQuestions': 'Regenerating questions...',
+	'notice.questionsGenerated': 'Generated {count} question(s)',
+	'notice.generationFailed': 'Failed to generate questions: {message}',
+	'notice.questionsDeleted': 'Deleted the questions of this note',
+	'notice.noSavedQuestions': 'This note has no saved questions',
+	'notice.questionsSaved': 'Saved {count} question(s)',
+	'notice.saveFailed': 'Failed to save: {message}',
+	'notice.validating': 'Validating the service configuration, please wait...',
+	'notice.serviceValid': 'The service configuration is valid!',
+	'notice.serviceInvalid': 'The service configuration is invalid. Please check it.',
+	'notice.validationFailed': 'Validation failed: {message}',
+
+	'status.bar': 'Cognitive weight: {weight} | Complexity: {complexity}%',
+
+	'prune.title': 'Pruned records',
+	'prune.nothing': 'Nothing to prune.',
+	'prune.orphaned': 'Orphaned records',
+	'prune.tombstones': 'Expired tombstones',
+
+	'explain.title': 'Score explanation: {name}',
+	'explain.untracked': 'This note is not tracked yet.',
+	'explain.weight': 'Cognitive weight: {value}',
+	'explain.term': 'Term',
+	'explain.formula': 'Formula',
+	'explain.substitution': 'Substituted',
+	'explain.value': 'Value',
+	'explain.timeDecay': 'Time decay',
+	'explain.timeDecayValues': 'α={alpha}, λ={lambda} (incl. seasonal term), d={days} days',
+	'explain.interactionBoost': 'Interaction boost',
+	'explain.centralityBonus': 'Centrality bonus',
+	'explain.centralityFormula': 'c·centrality^0.7',
+	'explain.centralityValues': 'c={bonus}, centrality={centrality}',
+	'explain.memoryFactor': 'Memory factor',
+	'explain.memoryFormula': '1 − m·(1 − memory strength)',
+	'explain.memoryValues': 'm={influence}, memory strength={strength}',
+	'explain.total': 'Total',
+	'explain.totalFormula': '(time decay + interaction boost + centrality bonus) × memory factor',
+	'explain.preset': 'Scoring preset: {preset}. The daily update only writes back the sum of time decay and interaction boost ({base}) as the new initial weight.',
+	'explain.stage': 'Cognitive stage: {stage}',
+	'explain.condition': 'Condition',
+	'explain.currentScore': 'Current score',
+	'explain.smoothed': 'Smoothed',
+	'explain.threshold': 'Threshold',
+	'explain.met': 'Met',
+	'explain.expertComplexity': 'Expert: complexity',
+	'explain.expertCentrality': 'Expert: centrality',
+	'explain.advancedEngagement': 'Advanced: engagement',
+	'explain.advancedCentrality': 'Advanced: centrality',
+	'explain.stageVerdict': 'By the current scores the note is {stage}: Expert requires both expert conditions, Advanced requires either advanced condition.',
+	'explain.stageSince': 'In {stage} since {date} ({days} days), smoothed recent review error rate {errorRate}. The stage only changes when one of these transition rules is met:',
+	'explain.transition': 'Transition',
+	'explain.rule': 'Rule',
+	'explain.languageChars': '{language} {count} chars',
+	'explain.noProse': 'no prose',
+	'explain.complexity': 'Complexity {score}: prose difficulty {prose} ({languages}), structural complexity {structure} (formulas {formulas}, code {code}, heading depth {headings}, list nesting {lists}).',
+	'explain.review': 'Review schedule',
+	'explain.neverReviewed': 'Never reviewed: scheduled after due notes, by cognitive weight from high to low.',
+	'explain.algorithm': 'Scheduling algorithm',
+	'explain.lastReview': 'Last review',
+	'explain.interval': 'Interval',
+	'explain.due': 'Due',
+	'explain.stabilityDifficulty': 'Stability / difficulty',
+	'explain.easeFactor': 'Ease factor (EF)',
+	'explain.lapses': 'Lapses',
+	'explain.overdue': 'Due, overdue by {percent}% of the interval. More overdue notes are reviewed first.',
+	'explain.notDue': 'Not due yet.',
+
+	'language.zh': 'Chinese',
+	'language.ja': 'Japanese',
+	'language.ko': 'Korean',
+	'language.en': 'English',
+
+	'preset.standard': 'Standard',
+	'preset.network': 'Network and memory',
+	'preset.long-term': 'Long-term',
+	'preset.strict': 'Strict stages',
+	'preset.custom': 'Custom',
+
+	'settings.language': 'Language',
+	'settings.language.desc': 'Language of the plugin interface. Auto follows the language of Obsidian. Command names change after the plugin is reloaded.',
+	'settings.questionLanguage': 'Question Language',
+	'settings.questionLanguage.desc': 'Language of generated questions. Auto uses the main language of each note.',
+	'settings.initialWeight': 'Initial Weight',
+	'settings.dailyUpdateTime': 'Daily Update Time',
+	'settings.dailyUpdateTime.desc': '24-hour time (HH:MM) at which weights decay each day. Missed days are applied the next time Obsidian starts.',
+	'settings.centralityMetric': 'Centrality Metric',
+	'settings.centralityMetric.desc': 'Link-graph metric used as the centrality score in cognitive stage detection',
+	'settings.centrality.betweenness': 'Betweenness',
+	'settings.centrality.hub': 'HITS hub',
+	'settings.centrality.authority': 'HITS authority',
+	'settings.centrality.indegree': 'In-degree',
+	'settings.tombstoneGraceDays': 'Deleted Note Grace Period (days)',
+	'settings.tombstoneGraceDays.desc': 'How long records of deleted notes are kept so they can be restored',
+	'settings.historyRetention': 'History Retention (days)',
+	'settings.historyRetention.desc': 'How many days of daily weight and review history to keep per note',
+	'settings.ignoreList': 'Ignore List',
+	'settings.ignoreList.desc': 'Notes matching any entry below are not tracked. Enter one entry per line.',
+	'settings.ignoredFolders': 'Ignored Folders',
+	'settings.ignoredFolders.desc': 'Folders whose notes, including subfolders, are ignored',
+	'settings.ignoredTags': 'Ignored Tags',
+	'settings.ignoredTags.desc': 'Tags whose notes are ignored; nested tags are included',
+	'settings.ignoredPatterns': 'Ignored Path Patterns',
+	'settings.ignoredPatterns.desc': 'Path patterns where * matches within a folder and ** across folders',
+	'settings.idleTimeout': 'Idle Timeout (seconds)',
+	'settings.idleTimeout.desc': 'Reading and editing time stops counting after this long without keyboard, mouse or scroll input',
+	'settings.provider': 'LLM Provider',
+	'settings.provider.desc': 'Service used to generate review questions',
+	'settings.baseUrl': 'Base URL',
+	'settings.model': 'Model',
+	'settings.apiKey': 'API Key',
+	'settings.authHeader': 'Auth Header',
+	'settings.authHeader.desc': 'Header that carries the API key, e.g. Authorization or api-key. Leave empty to send no auth header.',
+	'settings.jsonMode': 'JSON Output Mode',
+	'settings.jsonMode.desc': 'Ask the server for JSON output (response_format or format). Turn off if the server rejects it.',
+	'settings.temperature': 'Temperature',
+	'settings.maxTokens': 'Max Tokens',
+	'settings.localFallback': 'Offline Question Fallback',
+	'settings.localFallback.desc': 'Generate cloze questions from headings, definitions and bold terms when the LLM request fails. Used automatically when no provider is configured.',
+	'settings.questionsPerNote': 'Questions Per Note',
+	'settings.questionsPerNote.desc': 'Number of questions generated and stored for each note',
+	'settings.inputPrice': 'Input Price',
+	'settings.inputPrice.desc': 'USD per million input tokens, used to estimate cost. 0 for free or local models.',
+	'settings.outputPrice': 'Output Price',
+	'settings.outputPrice.desc': 'USD per million output tokens',
+	'settings.concurrency': 'Generation Concurrency',
+	'settings.concurrency.desc': 'Maximum number of question requests sent to the provider at the same time. Rate-limited and failed requests are retried with increasing delays.',
+	'settings.monthlyBudget': 'Monthly Budget (USD)',
+	'settings.monthlyBudget.desc': 'Question generation stops once the estimated cost this month reaches this amount. 0 means no limit.',
+	'settings.usage': 'Usage This Month',
+	'settings.usage.empty': 'No requests yet',
+	'settings.usage.provider': '{provider}: {requests} requests, {input} input / {output} output tokens, ${cost}',
+	'settings.scheduler': 'Scheduling Algorithm',
+	'settings.scheduler.desc': 'Spaced-repetition algorithm that decides when a note is due again',
+	'settings.requestRetention': 'Requested Retention (FSRS)',
+	'settings.requestRetention.desc': 'Target recall probability when a note becomes due',
+	'settings.validate': 'Validate Connection',
+	'settings.validate.button': 'Validate',
+	'settings.scoring': 'Scoring',
+	'settings.scoring.desc': 'Coefficients of the cognitive weight and thresholds of the cognitive stages. Use the "Explain cognitive score" command to see how they apply to a note.',
+	'settings.scoringPreset': 'Scoring Preset',
+	'settings.scoringPreset.desc': 'Choosing a preset replaces all values below. Editing a value switches to Custom.',
+	'settings.frontmatterSync': 'Frontmatter Sync',
+	'settings.frontmatterSync.desc': 'Write cognitive metrics into the frontmatter of tracked notes so they can be queried with Dataview',
+	'settings.scheduledSync': 'Scheduled Frontmatter Sync',
+	'settings.scheduledSync.desc': 'Write metrics automatically at the interval below. The commands work regardless of this setting.',
+	'settings.syncInterval': 'Sync Interval (minutes)',
+	'settings.syncInterval.desc': '0 writes only when a sync command is run',
+	'settings.property.weight': 'Weight Property',
+	'settings.property.stage': 'Stage Property',
+	'settings.property.due': 'Due Date Property',
+	'settings.property.strength': 'Memory Strength Property',
+	'settings.property.desc': 'Leave empty to skip this metric',
+	'settings.questionTypes': 'Question Types',
+	'settings.questionTypes.desc': 'Question types to generate. A note can override this with an mf-question-types frontmatter list.',
+
+	'scoring.alpha': 'Alpha Coefficient (α)',
+	'scoring.alpha.desc': 'Scale of the time-decayed weight',
+	'scoring.decayLambda': 'Decay Coefficient (λ)',
+	'scoring.decayLambda.desc': 'How quickly the weight decays over time',
+	'scoring.seasonalAmplitude': 'Seasonal Amplitude',
+	'scoring.seasonalAmplitude.desc': 'Yearly sine variation added to λ',
+	'scoring.betaCoefficient': 'Interaction Coefficient (β)',
+	'scoring.betaCoefficient.desc': 'Impact of interactions on the weight',
+	'scoring.interactionSaturation': 'Interaction Saturation',
+	'scoring.interactionSaturation.desc': 'How much β grows or shrinks around the midpoint (tanh range)',
+	'scoring.interactionMidpoint': 'Interaction Midpoint',
+	'scoring.interactionMidpoint.desc': 'Interaction count at which β equals its base value',
+	'scoring.interactionSpread': 'Interaction Spread',
+	'scoring.interactionSpread.desc': 'How gradually β changes around the midpoint',
+	'scoring.centralityBonus': 'Centrality Bonus',
+	'scoring.centralityBonus.desc': 'Weight added for well-linked notes (× centrality^0.7)',
+	'scoring.memoryInfluence': 'Memory Influence',
+	'scoring.memoryInfluence.desc': '0 ignores reviews, 1 multiplies the weight by memory strength',
+	'scoring.expertComplexity': 'Expert Complexity Threshold',
+	'scoring.expertComplexity.desc': 'Expert requires complexity above this value',
+	'scoring.expertCentrality': 'Expert Centrality Threshold',
+	'scoring.expertCentrality.desc': 'Expert requires centrality above this value',
+	'scoring.advancedEngagement': 'Advanced Engagement Threshold',
+	'scoring.advancedEngagement.desc': 'Advanced requires engagement or centrality above its threshold',
+	'scoring.advancedCentrality': 'Advanced Centrality Threshold',
+	'scoring.advancedCentrality.desc': 'Advanced requires engagement or centrality above its threshold',
+	'scoring.stageMargin': 'Stage Margin',
+	'scoring.stageMargin.desc': 'Distance beyond a threshold required before a stage changes',
+	'scoring.advancedErrorRate': 'Advanced Error Rate',
+	'scoring.advancedErrorRate.desc': 'Novice moves up only below this recent error rate, and Advanced falls back above it',
+	'scoring.expertErrorRate': 'Expert Error Rate',
+	'scoring.expertErrorRate.desc': 'Advanced moves up to Expert only below this recent error rate',
+	'scoring.expertDemoteErrorRate': 'Expert Demotion Error Rate',
+	'scoring.expertDemoteErrorRate.desc': 'Expert falls back to Advanced above this recent error rate',
+	'scoring.stageMinDaysUp': 'Days Before Promotion',
+	'scoring.stageMinDaysUp.desc': 'Minimum days in a stage before the note can move up',
+	'scoring.stageMinDaysDown': 'Days Before Demotion',
+	'scoring.stageMinDaysDown.desc': 'Minimum days in a stage before the note can move down',
+
+	'error.apiRequest': 'API request failed: {status} {statusText}',
+	'error.invalidJson': 'The API returned invalid JSON',
+	'error.noBaseUrl': 'No base URL configured',
+	'error.noModel': 'No model configured',
+	'error.emptyResponse': 'The API returned an empty response',
+	'error.noApiKey': 'The API key is empty',
+	'error.apiKeyFormat': 'Invalid API key format (it should start with sk-)',
+	'error.ollamaModel': 'Model {model} not found in Ollama',
+	'error.budgetExceeded': 'Monthly budget reached: ${cost} of ${budget} spent',
+	'error.cancelled': 'Question generation was cancelled',
+	'error.questionNotObject': 'A question must be an object',
+	'error.unknownType': 'Unknown question type: {type}',
+	'error.emptyQuestion': 'The question text is empty',
+	'error.tooFewOptions': 'At least two options are required',
+	'error.correctIndexRange': 'The index of the correct answer is out of range',
+	'error.truefalseAnswer': 'The answer of a true/false question must be true or false',
+	'error.clozeAnswers': 'The cloze question has no answers',
+	'error.clozeMismatch': 'The number of blanks ({blanks}) does not match the number of answers ({answers})',
+	'error.recallAnswer': 'The recall question has no reference answer',
+	'error.notJsonObject': 'The output must be a JSON object',
+	'error.missingField': 'Missing field {name}',
+	'error.fieldType': 'Field {name} should be {type}',
+	'error.typeField': 'Field type should be "{type}"',
+	'error.bloomRange': 'Field bloomLevel should be between 1 and 6',
+	'error.noJson': 'No JSON object in the output',
+	'error.bloomMismatch': 'bloomLevel is {returned}, but level {target} ({name}) was requested',
+	'error.parseFailed': 'Failed to parse: {message}',
+	'error.noLocalFacts': 'The note has no headings, definitions or bold terms to generate offline questions from',
+	'error.notQuestionArray': 'The content must be an array of questions',
+	'error.invalidQuestionAt': 'Question {index} is invalid: {message}',
+
+	'questionType.single': 'Single choice',
+	'questionType.multi': 'Multiple select',
+	'questionType.truefalse': 'True/false',
+	'questionType.cloze': 'Cloze',
+	'questionType.recall': 'Recall',
+
+	'bloom.remember': 'Remember',
+	'bloom.understand': 'Understand',
+	'bloom.apply': 'Apply',
+	'bloom.analyze': 'Analyze',
+	'bloom.evaluate': 'Evaluate',
+	'bloom.create': 'Create',
+	'bloom.remember.desc': 'recall facts, terms and basic concepts',
+	'bloom.understand.desc': 'explain concepts in your own words, give examples or compare',
+	'bloom.apply.desc': 'use concepts to solve problems in new situations',
+	'bloom.analyze.desc': 'break down relationships between concepts and find causes and structure',
+	'bloom.evaluate.desc': 'judge against criteria and weigh the pros and cons of alternatives',
+	'bloom.create.desc': 'combine several concepts into a new solution or design',
+
+	'field.type': 'question type, fixed value',
+	'field.question': 'question text',
+	'field.explanation': 'why the correct answer is right',
+	'field.bloomLevel': 'Bloom level the question actually tests (1-6)',
+	'field.sourceExcerpt': 'one sentence from the note that supports the answer, quoted verbatim',
+	'field.options': 'option texts without letter prefixes',
+	'field.correctIndex': 'index of the correct option, starting at 0',
+	'field.correctIndices': 'indices of all correct options, starting at 0',
+	'field.truefalseAnswer': 'whether the statement is true',
+	'field.clozeAnswers': 'answers for the blanks, in order',
+	'field.recallAnswer': 'a concise reference answer',
+
+	'rule.singleOptions': 'Give 4 options with exactly one correct',
+	'rule.distractors': 'Wrong options should reflect common misconceptions',
+	'rule.multiOptions': 'Give 4 to 6 options with at least two correct',
+	'rule.truefalse': 'The statement must be clear and unambiguous',
+	'rule.clozeBlank': 'Pick a key statement from the content and replace its core terms with {blank}',
+	'rule.clozeCount': 'Use at most 3 blanks, each answered by a short term',
+	'rule.recall': 'The question should be answered in one or two sentences and test understanding of a concept',
+
+	'prompt.intro': 'Write one professional question of type "{type}" based on the following content:',
+	'prompt.requirements': 'Requirements:',
+	'prompt.focus': 'Focus the question on a core concept',
+	'prompt.bloom': 'The question tests level {level} of Bloom\'s taxonomy, "{name}": {description}',
+	'prompt.language': 'Write the question, options, answers and explanation in {language}',
+	'prompt.explanation': 'explanation states why the correct answer is right',
+	'prompt.sourceExcerpt': 'sourceExcerpt quotes the note verbatim',
+	'prompt.fields': 'Output only one JSON object and nothing else. Fields:',
+	'prompt.example': 'Example:',
+	'prompt.repair': 'The output above does not meet the requirements: {errors}. Fix it and output only one JSON object.',
+
+	'local.definition': '{blank}: {definition}',
+	'local.fromSection': 'From the section "{heading}"',
+
+	'edit.title': 'Edit questions: {name}',
+	'edit.desc': 'Edit the questions as a JSON array. Saved questions are kept when the note changes.',
+	'edit.types': 'The type of each question can be {types}.',
+
+	'rating.again': 'Again',
+	'rating.hard': 'Hard',
+	'rating.good': 'Good',
+	'rating.easy': 'Easy',
+
+	'hint.single': 'A-D or 1-4 to answer',
+	'hint.multi': 'A-D or 1-4 to select, Enter to submit',
+	'hint.truefalse': 'T/1 true, F/2 false',
+	'hint.cloze': 'Fill in the blanks and press Enter to submit',
+	'hint.recall': 'Recall the answer, then press Enter to show the reference answer and grade yourself',
+
+	'review.title': 'Memory review',
+	'review.empty': 'No valid questions. Run the "{command}" command.',
+	'review.progress': 'Question {current} / {total}',
+	'review.multiple': '(Select all that apply)',
+	'review.submit': 'Submit',
+	'review.true': 'True',
+	'review.false': 'False',
+	'review.recallPlaceholder': '(Optional) Write down your answer',
+	'review.showAnswer': 'Show answer',
+	'review.keyHint': 'Shortcuts: {keys}, O opens the note',
+	'review.referenceAnswer': 'Reference answer: {answer}',
+	'review.correct': '✅ Correct',
+	'review.wrong': '❌ Wrong, the correct answer is {answer}',
+	'review.ratingHint': 'Shortcuts: 1-4 to rate, Enter for the suggested rating, O opens the note',
+	'review.complete': '📚 Review complete',
+	'review.accuracy': 'Accuracy: {percent}% ({correct} / {total})',
+	'review.levelAccuracy': 'Accuracy by cognitive level',
+	'review.question': 'Question',
+	'review.result': 'Result',
+	'review.rating': 'Rating',
+	'review.selfGraded': 'Self-graded',
+	'review.close': 'Close',
+
+	'stats.title': 'Review statistics',
+	'stats.desc': 'Answer accuracy of all notes by Bloom level.',
+	'stats.currentNote': 'Current note: {name}',
+	'stats.level': 'Level',
+	'stats.attempts': 'Attempts',
+	'stats.accuracy': 'Accuracy',
+
+	'dashboard.title': 'Cognitive dashboard',
+	'dashboard.loading': 'Collecting note data...',
+	'dashboard.refresh': 'Refresh',
+	'dashboard.empty': 'No tracked notes yet.',
+	'dashboard.allNotes': 'All notes ({shown} / {total})',
+	'dashboard.allFolders': 'All folders',
+	'dashboard.allTags': 'All tags',
+	'dashboard.allStages': 'All stages',
+	'dashboard.weakest': 'Weakest notes',
+	'dashboard.weakestDetail': ' memory strength {percent}%, {due}',
+	'dashboard.transitions': 'Recent stage changes',
+	'dashboard.transitionDetail': ' {from} → {to}, {date}',
+	'dashboard.since': 'Since {date}',
+	'dashboard.notReviewed': 'Not reviewed',
+	'dashboard.due': 'Due',
+
+	'history.title': 'Note history',
+	'history.noFile': 'Open a note to see its history.',
+	'history.engagement': 'Read {reading} min, edited {editing} min, max scroll depth {scroll}%, {links} link click(s)',
+	'history.empty': 'This note has no history yet.',
+	'history.reviews': 'Reviewed {reviews} time(s), {lapses} of them rated Again',
+	'history.stageChanges': 'Stage changes',
+	'history.stageEntry': '{day}: {stage}',
+	'history.chartTitle': '{title}: {value}'
+};
+
+type TranslationKey = keyof typeof EN_STRINGS;
+
+const ZH_CN_STRINGS: Record<TranslationKey, string> = {
+	'common.separator': '；',
+	'common.comma': '，',
+	'common.days': '{days} 天',
+	'common.save': '保存',
+	'common.cancel': '取消',
+	'common.auto': '自动',
+
+	'stage.novice': '新手',
+	'stage.advanced': '进阶',
+	'stage.expert': '专家',
+
+	'metric.note': '笔记',
+	'metric.weight': '认知权重',
+	'metric.complexity': '复杂度',
+	'metric.engagement': '交互深度',
+	'metric.centrality': '中心度',
+	'metric.stage': '阶段',
+	'metric.strength': '记忆强度',
+	'metric.due': '下次复习',
+	'metric.interactions': '交互次数',
+
+	'rule.noviceToAdvanced': '停留 ≥ {days} 天，错误率 < {errorRate}，且交互深度 > {engagement} 或中心度 > {centrality}',
+	'rule.advancedToExpert': '停留 ≥ {days} 天，错误率 < {errorRate}，复杂度 > {complexity} 且中心度 > {centrality}',
+	'rule.expertToAdvanced': '停留 ≥ {days} 天，且错误率 > {errorRate}、复杂度 < {complexity} 或中心度 < {centrality}',
+	'rule.advancedToNovice': '停留 ≥ {days} 天，且错误率 > {errorRate} 或交互深度 < {engagement} 且中心度 < {centrality}',
+
+	'command.detectStage': '检测认知阶段',
+	'command.explainScore': '解释当前笔记的认知评分',
+	'command.openDashboard': '打开认知仪表盘',
+	'command.syncFrontmatter': '将认知指标写入 frontmatter',
+	'command.syncFrontmatterCurrent': '将认知指标写入当前笔记的 frontmatter',
+	'command.openHistory': '打开笔记历史',
+	'command.pruneRecords': '清理孤立记录',
+	'command.updateWeights': '更新认知权重',
+	'command.startReview': '开始记忆复习',
+	'command.regenerateQuestions': '重新生成当前笔记的题目',
+	'command.showReviewStats': '显示复习统计',
+	'command.deleteQuestions': '删除当前笔记的题目',
+	'command.editQuestions': '编辑当前笔记的题目',
+
+	'notice.stagesChanged': '{count} 篇笔记的认知阶段发生了变化，详见认知仪表盘',
+	'notice.weightsUpdated': '认知权重已更新（补算了 {days} 天）',
+	'notice.weightsUpToDate': '认知权重已是最新',
+	'notice.currentStage': '当前认知阶段：{stage}',
+	'notice.stageChanged': '阶段变化：{from} → {to}',
+	'notice.stageScores': '复杂度: {complexity}\n交互深度: {engagement}\n中心度: {centrality}',
+	'notice.writingFrontmatter': '正在写入 frontmatter...',
+	'notice.frontmatterUpdatedCount': '已更新 {count} 篇笔记的 frontmatter',
+	'notice.frontmatterUpdated': '已更新 frontmatter',
+	'notice.frontmatterUpToDate': 'frontmatter 已是最新',
+	'notice.noDueFiles': '当前没有需要复习的文件',
+	'notice.generationProgress': '正在生成复习题目... {done}/{total}',
+	'notice.generationCancelled': '已取消生成题目',
+	'notice.budgetReached': '已达到每月预算 ${budget}，本月内不再生成题目，提高预算后可继续。',
+	'notice.noValidQuestions': '无法生成任何有效题目',
+	'notice.regeneratingQuestions': '正在重新生成题目...',
+	'notice.questionsGenerated': '已生成 {count} 道题目',
+	'notice.generationFailed': '生成题目失败: {message}',
+	'notice.questionsDeleted': '已删除该笔记的题目',
+	'notice.noSavedQuestions': '该笔记没有已保存的题目',
+	'notice.questionsSaved': '已保存 {count} 道题目',
+	'notice.saveFailed': '保存失败: {message}',
+	'notice.validating': '正在验证服务配置，请稍候...',
+	'notice.serviceValid': '服务配置有效！',
+	'notice.serviceInvalid': '服务配置无效，请检查。',
+	'notice.validationFailed': '验证失败: {message}',
+
+	'status.bar': '认知权重: {weight} | 内容复杂度: {complexity}%',
+
+	'prune.title': '已清理的记录',
+	'prune.nothing': '没有需要清理的记录。',
+	'prune.orphaned': '孤立记录',
+	'prune.tombstones': '过期的删除记录',
+
+	'explain.title': '评分说明：{name}',
+	'explain.untracked': '这篇笔记尚未被跟踪。',
+	'explain.weight': '认知权重：{value}',
+	'explain.term': '项',
+	'explain.formula': '公式',
+	'explain.substitution': '代入',
+	'explain.value': '值',
+	'explain.timeDecay': '时间衰减',
+	'explain.timeDecayValues': 'α={alpha}，λ={lambda}（含季节项），d={days} 天',
+	'explain.interactionBoost': '交互加成',
+	'explain.centralityBonus': '中心度加成',
+	'explain.centralityFormula': 'c·中心度^0.7',
+	'explain.centralityValues': 'c={bonus}，中心度={centrality}',
+	'explain.memoryFactor': '记忆系数',
+	'explain.memoryFormula': '1 − m·(1 − 记忆强度)',
+	'explain.memoryValues': 'm={influence}，记忆强度={strength}',
+	'explain.total': '合计',
+	'explain.totalFormula': '(时间衰减 + 交互加成 + 中心度加成) × 记忆系数',
+	'explain.preset': '评分方案：{preset}。每日更新时只把时间衰减与交互加成之和（{base}）写回为新的初始权重。',
+	'explain.stage': '认知阶段：{stage}',
+	'explain.condition': '条件',
+	'explain.currentScore': '当前得分',
+	'explain.smoothed': '平滑值',
+	'explain.threshold': '阈值',
+	'explain.met': '满足',
+	'explain.expertComplexity': '专家：复杂度',
+	'explain.expertCentrality': '专家：中心度',
+	'explain.advancedEngagement': '进阶：交互深度',
+	'explain.advancedCentrality': '进阶：中心度',
+	'explain.stageVerdict': '按当前得分判定为 {stage}：专家需同时满足两项专家条件，进阶需满足任一进阶条件。',
+	'explain.stageSince': '自 {date} 起处于 {stage}（{days} 天），最近复习错误率（平滑）{errorRate}。阶段只在满足以下迁移规则时改变：',
+	'explain.transition': '迁移',
+	'explain.rule': '规则',
+	'explain.languageChars': '{language} {count} 字',
+	'explain.noProse': '无正文',
+	'explain.complexity': '复杂度 {score}：正文难度 {prose}（{languages}），结构复杂度 {structure}（公式 {formulas}，代码 {code}，标题深度 {headings}，列表嵌套 {lists}）。',
+	'explain.review': '复习安排',
+	'explain.neverReviewed': '从未复习：排在已到期笔记之后，按认知权重从高到低安排。',
+	'explain.algorithm': '调度算法',
+	'explain.lastReview': '上次复习',
+	'explain.interval': '间隔',
+	'explain.due': '到期时间',
+	'explain.stabilityDifficulty': '稳定性 / 难度',
+	'explain.easeFactor': '难度系数 (EF)',
+	'explain.lapses': '遗忘次数',
+	'explain.overdue': '已到期，逾期 {percent}% 个间隔；逾期越多越先复习。',
+	'explain.notDue': '尚未到期。',
+
+	'language.zh': '中文',
+	'language.ja': '日文',
+	'language.ko': '韩文',
+	'language.en': '英文',
+
+	'preset.standard': '标准',
+	'preset.network': '链接与记忆',
+	'preset.long-term': '长期',
+	'preset.strict': '严格阶段',
+	'preset.custom': '自定义',
+
+	'settings.language': '界面语言',
+	'settings.language.desc': '插件界面使用的语言，自动表示跟随 Obsidian 的语言。命令名称在重新加载插件后更新。',
+	'settings.questionLanguage': '出题语言',
+	'settings.questionLanguage.desc': '生成题目使用的语言，自动表示使用每篇笔记的主要语言。',
+	'settings.initialWeight': '初始权重',
+	'settings.dailyUpdateTime': '每日更新时间',
+	'settings.dailyUpdateTime.desc': '每天衰减权重的时间（24 小时制 HH:MM）。错过的天数会在下次启动 Obsidian 时补算。',
+	'settings.centralityMetric': '中心度指标',
+	'settings.centralityMetric.desc': '认知阶段检测中作为中心度得分的链接图指标',
+	'settings.centrality.betweenness': '介数中心度',
+	'settings.centrality.hub': 'HITS 枢纽值',
+	'settings.centrality.authority': 'HITS 权威值',
+	'settings.centrality.indegree': '入度',
+	'settings.tombstoneGraceDays': '已删除笔记保留期（天）',
+	'settings.tombstoneGraceDays.desc': '已删除笔记的记录保留多久，期间恢复笔记可以找回记录',
+	'settings.historyRetention': '历史保留天数',
+	'settings.historyRetention.desc': '每篇笔记保留多少天的每日权重和复习历史',
+	'settings.ignoreList': '忽略列表',
+	'settings.ignoreList.desc': '匹配下列任一条目的笔记不会被跟踪。每行一个条目。',
+	'settings.ignoredFolders': '忽略的文件夹',
+	'settings.ignoredFolders.desc': '这些文件夹（含子文件夹）中的笔记会被忽略',
+	'settings.ignoredTags': '忽略的标签',
+	'settings.ignoredTags.desc': '带有这些标签的笔记会被忽略，包括嵌套标签',
+	'settings.ignoredPatterns': '忽略的路径模式',
+	'settings.ignoredPatterns.desc': '* 匹配同一文件夹内的路径，** 可跨越文件夹',
+	'settings.idleTimeout': '空闲超时（秒）',
+	'settings.idleTimeout.desc': '超过这么久没有键盘、鼠标或滚动操作时，停止累计阅读和编辑时间',
+	'settings.provider': 'LLM 服务商',
+	'settings.provider.desc': '用于生成复习题目的服务',
+	'settings.baseUrl': '服务地址',
+	'settings.model': '模型',
+	'settings.apiKey': 'API 密钥',
+	'settings.authHeader': '认证头',
+	'settings.authHeader.desc': '携带 API 密钥的请求头，例如 Authorization 或 api-key。留空则不发送认证头。',
+	'settings.jsonMode': 'JSON 输出模式',
+	'settings.jsonMode.desc': '要求服务以 JSON 格式输出（response_format 或 format）。服务不支持时请关闭。',
+	'settings.temperature': '温度',
+	'settings.maxTokens': '最大 token 数',
+	'settings.localFallback': '离线出题',
+	'settings.localFallback.desc': 'LLM 请求失败时，根据标题、定义和加粗术语生成填空题。未配置服务时自动使用。',
+	'settings.questionsPerNote': '每篇笔记的题目数',
+	'settings.questionsPerNote.desc': '为每篇笔记生成并保存的题目数量',
+	'settings.inputPrice': '输入价格',
+	'settings.inputPrice.desc': '每百万输入 token 的价格（美元），用于估算费用。免费或本地模型填 0。',
+	'settings.outputPrice': '输出价格',
+	'settings.outputPrice.desc': '每百万输出 token 的价格（美元）',
+	'settings.concurrency': '出题并发数',
+	'settings.concurrency.desc': '同时发往服务商的出题请求数上限。被限流或服务端出错的请求会逐次延长间隔后重试。',
+	'settings.monthlyBudget': '每月预算（美元）',
+	'settings.monthlyBudget.desc': '本月估算费用达到该金额后停止生成题目。0 表示不限。',
+	'settings.usage': '本月用量',
+	'settings.usage.empty': '暂无请求',
+	'settings.usage.provider': '{provider}：{requests} 次请求，输入 {input} / 输出 {output} token，${cost}',
+	'settings.scheduler': '调度算法',
+	'settings.scheduler.desc': '决定笔记何时再次到期的间隔重复算法',
+	'settings.requestRetention': '目标记忆保持率（FSRS）',
+	'settings.requestRetention.desc': '笔记到期时希望达到的回忆概率',
+	'settings.validate': '验证服务连接',
+	'settings.validate.button': '验证',
+	'settings.scoring': '评分',
+	'settings.scoring.desc': '认知权重的系数和认知阶段的阈值。使用“解释当前笔记的认知评分”命令查看它们如何作用于一篇笔记。',
+	'settings.scoringPreset': '评分方案',
+	'settings.scoringPreset.desc': '选择方案会替换下面所有的值，修改任一值后切换为自定义。',
+	'settings.frontmatterSync': 'Frontmatter 同步',
+	'settings.frontmatterSync.desc': '把认知指标写入已跟踪笔记的 frontmatter，便于用 Dataview 查询',
+	'settings.scheduledSync': '定时同步 frontmatter',
+	'settings.scheduledSync.desc': '按下面的间隔自动写入指标。无论是否开启，同步命令都可以使用。',
+	'settings.syncInterval': '同步间隔（分钟）',
+	'settings.syncInterval.desc': '0 表示只在运行同步命令时写入',
+	'settings.property.weight': '权重属性',
+	'settings.property.stage': '阶段属性',
+	'settings.property.due': '到期日属性',
+	'settings.property.strength': '记忆强度属性',
+	'settings.property.desc': '留空则不写入该指标',
+	'settings.questionTypes': '题型',
+	'settings.questionTypes.desc': '要生成的题型。笔记可以在 frontmatter 中用 mf-question-types 列表覆盖。',
+
+	'scoring.alpha': 'α 系数',
+	'scoring.alpha.desc': '时间衰减权重的缩放系数',
+	'scoring.decayLambda': '衰减系数 λ',
+	'scoring.decayLambda.desc': '权重随时间衰减的速度',
+	'scoring.seasonalAmplitude': '季节振幅',
+	'scoring.seasonalAmplitude.desc': '叠加在 λ 上的年度正弦变化',
+	'scoring.betaCoefficient': '交互系数 β',
+	'scoring.betaCoefficient.desc': '交互对权重的影响',
+	'scoring.interactionSaturation': '交互饱和度',
+	'scoring.interactionSaturation.desc': 'β 在中点附近增减的幅度（tanh 范围）',
+	'scoring.interactionMidpoint': '交互中点',
+	'scoring.interactionMidpoint.desc': 'β 等于基准值时的交互次数',
+	'scoring.interactionSpread': '交互跨度',
+	'scoring.interactionSpread.desc': 'β 在中点附近变化的平缓程度',
+	'scoring.centralityBonus': '中心度加成',
+	'scoring.centralityBonus.desc': '链接丰富的笔记增加的权重（× 中心度^0.7）',
+	'scoring.memoryInfluence': '记忆影响',
+	'scoring.memoryInfluence.desc': '0 表示忽略复习，1 表示权重乘以记忆强度',
+	'scoring.expertComplexity': '专家复杂度阈值',
+	'scoring.expertComplexity.desc': '专家要求复杂度高于该值',
+	'scoring.expertCentrality': '专家中心度阈值',
+	'scoring.expertCentrality.desc': '专家要求中心度高于该值',
+	'scoring.advancedEngagement': '进阶交互深度阈值',
+	'scoring.advancedEngagement.desc': '进阶要求交互深度或中心度高于各自的阈值',
+	'scoring.advancedCentrality': '进阶中心度阈值',
+	'scoring.advancedCentrality.desc': '进阶要求交互深度或中心度高于各自的阈值',
+	'scoring.stageMargin': '阶段余量',
+	'scoring.stageMargin.desc': '阶段改变前需要超过阈值的距离',
+	'scoring.advancedErrorRate': '进阶错误率',
+	'scoring.advancedErrorRate.desc': '新手在近期错误率低于该值时才能升级，进阶高于该值时降级',
+	'scoring.expertErrorRate': '专家错误率',
+	'scoring.expertErrorRate.desc': '进阶在近期错误率低于该值时才能升为专家',
+	'scoring.expertDemoteErrorRate': '专家降级错误率',
+	'scoring.expertDemoteErrorRate.desc': '专家在近期错误率高于该值时降为进阶',
+	'scoring.stageMinDaysUp': '升级前停留天数',
+	'scoring.stageMinDaysUp.desc': '笔记升级前在当前阶段的最短停留天数',
+	'scoring.stageMinDaysDown': '降级前停留天数',
+	'scoring.stageMinDaysDown.desc': '笔记降级前在当前阶段的最短停留天数',
+
+	'error.apiRequest': 'API请求失败: {status} {statusText}',
+	'error.invalidJson': 'API返回了无效的JSON格式',
+	'error.noBaseUrl': '未配置服务地址',
+	'error.noModel': '未配置模型名称',
+	'error.emptyResponse': 'API返回空响应',
+	'error.noApiKey': 'API密钥不能为空',
+	'error.apiKeyFormat': 'API密钥格式错误（应以sk-开头）',
+	'error.ollamaModel': 'Ollama 中未找到模型 {model}',
+	'error.budgetExceeded': '已达到每月预算：已花费 ${cost}，预算 ${budget}',
+	'error.cancelled': '已取消生成题目',
+	'error.questionNotObject': '题目必须是对象',
+	'error.unknownType': '未知题型: {type}',
+	'error.emptyQuestion': '题干不能为空',
+	'error.tooFewOptions': '至少需要两个选项',
+	'error.correctIndexRange': '正确答案序号超出选项范围',
+	'error.truefalseAnswer': '判断题答案必须是 true 或 false',
+	'error.clozeAnswers': '填空题缺少答案',
+	'error.clozeMismatch': '空位数（{blanks}）与答案数（{answers}）不一致',
+	'error.recallAnswer': '回忆题缺少参考答案',
+	'error.notJsonObject': '输出必须是一个JSON对象',
+	'error.missingField': '缺少字段 {name}',
+	'error.fieldType': '字段 {name} 应为 {type}',
+	'error.typeField': '字段 type 应为 "{type}"',
+	'error.bloomRange': '字段 bloomLevel 应在 1 到 6 之间',
+	'error.noJson': '输出中没有JSON对象',
+	'error.bloomMismatch': 'bloomLevel 为 {returned}，但要求考察第 {target} 层（{name}）',
+	'error.parseFailed': '解析失败: {message}',
+	'error.noLocalFacts': '笔记中没有可用于本地出题的标题、定义或加粗术语',
+	'error.notQuestionArray': '内容必须是题目数组',
+	'error.invalidQuestionAt': '第 {index} 道题格式不正确：{message}',
+
+	'questionType.single': '单选题',
+	'questionType.multi': '多选题',
+	'questionType.truefalse': '判断题',
+	'questionType.cloze': '填空题',
+	'questionType.recall': '回忆题',
+
+	'bloom.remember': '记忆',
+	'bloom.understand': '理解',
+	'bloom.apply': '应用',
+	'bloom.analyze': '分析',
+	'bloom.evaluate': '评价',
+	'bloom.create': '创造',
+	'bloom.remember.desc': '回忆事实、术语和基本概念',
+	'bloom.understand.desc': '用自己的话解释概念、举例或比较',
+	'bloom.apply.desc': '在新的情境中运用概念解决问题',
+	'bloom.analyze.desc': '拆解概念之间的关系，找出原因和结构',
+	'bloom.evaluate.desc': '依据标准判断、权衡不同方案的优劣',
+	'bloom.create.desc': '综合多个概念提出新的方案或设计',
+
+	'field.type': '题型，固定值',
+	'field.question': '题干',
+	'field.explanation': '说明正确答案的依据',
+	'field.bloomLevel': '题目实际考察的布鲁姆层级（1-6）',
+	'field.sourceExcerpt': '原样摘录笔记中支撑答案的一句话',
+	'field.options': '选项文本，不带字母前缀',
+	'field.correctIndex': '正确选项的序号，从0开始',
+	'field.correctIndices': '所有正确选项的序号，从0开始',
+	'field.truefalseAnswer': '陈述是否正确',
+	'field.clozeAnswers': '按顺序排列的各空位答案',
+	'field.recallAnswer': '简洁的参考答案',
+
+	'rule.singleOptions': '给出4个选项，只有一个正确',
+	'rule.distractors': '错误选项需包含常见误解',
+	'rule.multiOptions': '给出4到6个选项，其中至少两个正确',
+	'rule.truefalse': '陈述要明确，避免模棱两可',
+	'rule.clozeBlank': '从内容中选取一句关键陈述，把核心术语替换为{blank}',
+	'rule.clozeCount': '空位不超过3个，每个空位的答案是简短的词语',
+	'rule.recall': '问题需要用一两句话回答，考察对概念的理解',
+
+	'prompt.intro': '根据以下内容生成一个专业的{type}：',
+	'prompt.requirements': '要求：',
+	'prompt.focus': '问题要聚焦核心概念',
+	'prompt.bloom': '题目考察布鲁姆认知层级第 {level} 层「{name}」：{description}',
+	'prompt.language': '题干、选项、答案和 explanation 使用{language}',
+	'prompt.explanation': 'explanation 说明正确答案的依据',
+	'prompt.sourceExcerpt': 'sourceExcerpt 原样摘录笔记中的原文',
+	'prompt.fields': '只输出一个JSON对象，不要输出其他内容。字段说明：',
+	'prompt.example': '示例：',
+	'prompt.repair': '上面的输出不符合要求：{errors}。请修正后只输出一个JSON对象。',
+
+	'local.definition': '{blank}：{definition}',
+	'local.fromSection': '出自「{heading}」一节',
+
+	'edit.title': '编辑题目：{name}',
+	'edit.desc': '以 JSON 数组编辑题目，保存后这些题目不会因笔记内容变化而失效。',
+	'edit.types': '每道题的 type 可以是 {types}。',
+
+	'rating.again': '重来',
+	'rating.hard': '困难',
+	'rating.good': '良好',
+	'rating.easy': '简单',
+
+	'hint.single': 'A-D 或 1-4 选择答案',
+	'hint.multi': 'A-D 或 1-4 勾选，Enter 提交',
+	'hint.truefalse': 'T/1 正确，F/2 错误',
+	'hint.cloze': '填写空位后按 Enter 提交',
+	'hint.recall': '回忆答案后按 Enter 显示参考答案并自评',
+
+	'review.title': '记忆复习',
+	'review.empty': '暂无有效题目，请使用“{command}”命令。',
+	'review.progress': '第 {current} / {total} 题',
+	'review.multiple': '（多选）',
+	'review.submit': '提交',
+	'review.true': '正确',
+	'review.false': '错误',
+	'review.recallPlaceholder': '（可选）写下你的回答',
+	'review.showAnswer': '显示答案',
+	'review.keyHint': '快捷键：{keys}，O 打开笔记',
+	'review.referenceAnswer': '参考答案：{answer}',
+	'review.correct': '✅ 回答正确',
+	'review.wrong': '❌ 回答错误，正确答案是 {answer}',
+	'review.ratingHint': '快捷键：1-4 评分，Enter 使用推荐评分，O 打开笔记',
+	'review.complete': '📚 复习完成',
+	'review.accuracy': '正确率：{percent}%（{correct} / {total}）',
+	'review.levelAccuracy': '各认知层级正确率',
+	'review.question': '题目',
+	'review.result': '结果',
+	'review.rating': '评分',
+	'review.selfGraded': '自评',
+	'review.close': '关闭',
+
+	'stats.title': '复习统计',
+	'stats.desc': '按布鲁姆认知层级统计所有笔记的答题正确率。',
+	'stats.currentNote': '当前笔记：{name}',
+	'stats.level': '层级',
+	'stats.attempts': '作答次数',
+	'stats.accuracy': '正确率',
+
+	'dashboard.title': '认知仪表盘',
+	'dashboard.loading': '正在统计笔记数据...',
+	'dashboard.refresh': '刷新',
+	'dashboard.empty': '暂无已跟踪的笔记。',
+	'dashboard.allNotes': '全部笔记（{shown} / {total}）',
+	'dashboard.allFolders': '所有文件夹',
+	'dashboard.allTags': '所有标签',
+	'dashboard.allStages': '所有阶段',
+	'dashboard.weakest': '最薄弱的笔记',
+	'dashboard.weakestDetail': ' 记忆强度 {percent}%，{due}',
+	'dashboard.transitions': '最近的阶段变化',
+	'dashboard.transitionDetail': ' {from} → {to}，{date}',
+	'dashboard.since': '自 {date} 起',
+	'dashboard.notReviewed': '未复习',
+	'dashboard.due': '已到期',
+
+	'history.title': '笔记历史',
+	'history.noFile': '打开一篇笔记以查看其历史。',
+	'history.engagement': '阅读 {reading} 分钟，编辑 {editing} 分钟，最大滚动深度 {scroll}%，点击链接 {links} 次',
+	'history.empty': '这篇笔记还没有历史记录。',
+	'history.reviews': '复习 {reviews} 次，其中重来 {lapses} 次',
+	'history.stageChanges': '阶段变化',
+	'history.stageEntry': '{day}：{stage}',
+	'history.chartTitle': '{title}：{value}'
+};
+
+const LOCALES: Record<Locale, Record<TranslationKey, string>> = {
+	'en': EN_STRINGS,
+	'zh-CN': ZH_CN_STRINGS
+};
+
+// 当前界面语言，加载设置后由插件设定
+let currentLocale: Locale = 'en';
+
+// 跟随 Obsidian 时，中文界面使用简体中文，其他语言使用英文
+function resolveLocale(setting: Locale | 'auto'): Locale {
+	if (setting !== 'auto') return setting;
+	return moment.locale().toLowerCase().startsWith('zh') ? 'zh-CN' : 'en';
+}
 
-		const startOfYear = new Date(new Date().getFullYear(), 0, 0);
-		const diff = now - startOfYear.getTime();
-		const dayOfYear = Math.floor(diff / (1000 * 60 * 60 * 24));
-		const lambda = this.plugin.settings.decayLambda + 0.01 * Math.sin(2 * Math.PI * dayOfYear / 365);
+function setLocale(locale: Locale) {
+	currentLocale = locale;
+}
 
-		const sqrtDays = Math.sqrt(daysElapsed);
-		const timeDecay = this.plugin.settings.alpha * data.initialWeight * Math.exp(-lambda * sqrtDays);
+// 用 params 替换文本中的 {name} 占位符
+function t(key: TranslationKey, params: Record<string, string | number> = {}, locale: Locale = currentLocale): string {
+	return LOCALES[locale][key].replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match);
+}
 
-		const N = data.interactionCount;
-		const beta = this.plugin.settings.betaCoefficient * (1 + 0.5 * Math.tanh((N - 3) / 2));
-		const interactionBoost = beta * (1 - 1 / (1 + Math.log2(N + 1)));
+const STAGE_NAME_KEYS: Record<CognitiveStage, TranslationKey> = {
+	'新手': 'stage.novice',
+	'进阶': 'stage.advanced',
+	'专家': 'stage.expert'
+};
 
-		return Number((timeDecay + interactionBoost).toFixed(2));
+// 阶段在数据中以中文保存，显示时再翻译
+function stageName(stage: CognitiveStage): string {
+	return t(STAGE_NAME_KEYS[stage]);
+}
+
+function transitionName(key: StageTransitionKey): string {
+	return key.split('→').map(stage => stageName(stage as CognitiveStage)).join(' → ');
+}
+
+// data.json 的结构版本，结构变化时递增并补充迁移函数
+const DATA_VERSION = 6;
+
+// 每日更新的执行记录，随 data.json 在设备间同步
+interface DecayState {
+	// 最近一次已执行的每日更新时刻，0 表示从未执行
+	lastSlot: number;
+	// 执行该次更新的设备
+	deviceId: string;
+}
+
+// 本月各服务商的出题用量，换月后清零
+interface UsageState {
+	// YYYY-MM
+	month: string;
+	providers: Partial<Record<ProviderId, ProviderUsage>>;
+}
+
+interface ProviderUsage {
+	requests: number;
+	inputTokens: number;
+	outputTokens: number;
+	// 按请求时的价格估算的费用（美元）
+	cost: number;
+}
+
+interface PluginDataFile {
+	version: number;
+	settings: Partial<MyPluginSettings>;
+	weights: CognitiveWeightData;
+	memory: Record<string, MemoryStrengthData>;
+	stats: Record<string, InteractionDuration>;
+	tombstones: Record<string, Tombstone>;
+	questions: Record<string, QuestionBankEntry>;
+	history: Record<string, HistoryEntry[]>;
+	stages: Record<string, NoteStageState>;
+	decay: DecayState;
+	usage: UsageState;
+}
+
+type DataSection = Exclude<keyof PluginDataFile, 'version'>;
+
+function createEmptyData(): PluginDataFile {
+	return {
+		version: DATA_VERSION,
+		settings: {},
+		weights: {},
+		memory: {},
+		stats: {},
+		tombstones: {},
+		questions: {},
+		history: {},
+		stages: {},
+		decay: { lastSlot: 0, deviceId: '' },
+		usage: { month: '', providers: {} }
+	};
+}
+
+// v0 版本中出现过的设置字段
+const V0_SETTING_KEYS = [
+	'mySetting', 'decayLambda', 'betaCoefficient', 'initialWeight', 'dailyUpdateTime',
+	'alpha', 'deepseekApiKey', 'temperature', 'maxTokens'
+];
+
+// 迁移函数：键为源版本号，返回下一版本的数据结构
+const DATA_MIGRATIONS: Record<number, (raw: any) => any> = {
+	// v0: 设置与权重数据混写在 data.json 根对象中
+	0: (raw: any) => {
+		const migrated: any = { version: 1, settings: {}, weights: {}, memory: {}, stats: {} };
+		for (const key of Object.keys(raw)) {
+			const value = raw[key];
+			if (V0_SETTING_KEYS.includes(key)) {
+				migrated.settings[key] = value;
+			} else if (value && typeof value === 'object' && 'initialWeight' in value && 'lastUpdated' in value) {
+				migrated.weights[key] = value;
+			} else {
+				console.warn(`迁移时忽略未知字段: ${key}`);
+			}
+		}
+		return migrated;
+	},
+	// v1: DeepSeek 密钥移入服务商配置
+	1: (raw: any) => {
+		const settings = raw.settings || {};
+		if ('deepseekApiKey' in settings) {
+			settings.providers = settings.providers || {};
+			settings.providers['deepseek'] = Object.assign({}, settings.providers['deepseek'], {
+				apiKey: settings.deepseekApiKey
+			});
+			delete settings.deepseekApiKey;
+		}
+		return Object.assign({}, raw, { version: 2, settings });
+	},
+	// v2: 复习记录补充调度字段，已有记录视为立即到期
+	2: (raw: any) => {
+		const memory = raw.memory || {};
+		for (const filePath of Object.keys(memory)) {
+			const record = memory[filePath];
+			memory[filePath] = Object.assign({
+				interval: 0,
+				due: record.lastReviewTime || Date.now(),
+				stability: 0,
+				difficulty: 0,
+				lapses: 0,
+				reps: (record.historicalSuccessRate || []).length
+			}, record);
+		}
+		return Object.assign({}, raw, { version: 3, memory });
+	},
+	// v3: 题库中的题目补充题型，旧题目均为单选题
+	3: (raw: any) => {
+		const questions = raw.questions || {};
+		for (const filePath of Object.keys(questions)) {
+			for (const question of questions[filePath].questions || []) {
+				question.type = question.type || 'single';
+			}
+		}
+		return Object.assign({}, raw, { version: 4, questions });
+	},
+	// v4: 交互统计补充阅读/编辑时长和滚动深度，旧数据无法区分，从零开始
+	4: (raw: any) => {
+		const stats = raw.stats || {};
+		for (const filePath of Object.keys(stats)) {
+			stats[filePath] = Object.assign({ readingTime: 0, editingTime: 0, scrollDepth: 0 }, stats[filePath]);
+		}
+		return Object.assign({}, raw, { version: 5, stats });
+	},
+	// v5: 权重系数移入评分配置，与默认值不同时视为自定义
+	5: (raw: any) => {
+		const settings = Object.assign({}, raw.settings);
+		const scoring: Partial<ScoringProfile> = {};
+		for (const key of ['alpha', 'decayLambda', 'betaCoefficient'] as const) {
+			if (key in settings) {
+				scoring[key] = settings[key];
+				delete settings[key];
+			}
+		}
+		if (Object.keys(scoring).length > 0) {
+			settings.scoring = Object.assign({}, SCORING_PRESETS['standard'], scoring);
+			const standard = SCORING_PRESETS['standard'];
+			const custom = (Object.keys(scoring) as (keyof ScoringProfile)[]).some(key => scoring[key] !== standard[key]);
+			settings.scoringPreset = custom ? 'custom' : 'standard';
+		}
+		return Object.assign({}, raw, { version: 6, settings });
 	}
+};
 
-	async applyDailyDecay() {
-		const now = Date.now();
-		for (const filePath in this.data) {
-			const daysElapsed = (now - this.data[filePath].lastUpdated) / (1000 * 60 * 60 * 24);
-			this.data[filePath].initialWeight = this.calculateCurrentWeight(filePath);
-			this.data[filePath].interactionCount = 0;
-			this.data[filePath].lastUpdated = now;
+enum ReviewRating {
+	Again = 1,
+	Hard = 2,
+	Good = 3,
+	Easy = 4
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_INTERVAL_DAYS = 36500;
+
+// 本地日期，格式为 YYYY-MM-DD，可直接按字符串比较先后
+function toDayKey(time: number): string {
+	const date = new Date(time);
+	const pad = (n: number) => ('0' + n).slice(-2);
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function createMemoryData(now: number): MemoryStrengthData {
+	return {
+		EF: 2.5,
+		consecutiveSuccess: 0,
+		consecutiveFailures: 0,
+		historicalSuccessRate: [],
+		lastTestResult: false,
+		interval: 0,
+		due: now,
+		stability: 0,
+		difficulty: 0,
+		lapses: 0,
+		reps: 0
+	};
+}
+
+interface Scheduler {
+	// 根据评分更新间隔和到期时间
+	// 调用时连续正确/错误计数已更新，lastReviewTime 仍是上一次复习时间
+	schedule(card: MemoryStrengthData, rating: ReviewRating, now: number): void;
+	// 当前的回忆概率（0-1）
+	retrievability(card: MemoryStrengthData, now: number): number;
+}
+
+function createScheduler(settings: MyPluginSettings): Scheduler {
+	return settings.schedulerAlgorithm === 'fsrs'
+		? new FSRSScheduler(settings.requestRetention)
+		: new SM2Scheduler();
+}
+
+class SM2Scheduler implements Scheduler {
+	// Again/Hard/Good/Easy 对应 SM-2 的质量分 q
+	private readonly QUALITY: Record<ReviewRating, number> = {
+		[ReviewRating.Again]: 1,
+		[ReviewRating.Hard]: 3,
+		[ReviewRating.Good]: 4,
+		[ReviewRating.Easy]: 5
+	};
+
+	schedule(card: MemoryStrengthData, rating: ReviewRating, now: number) {
+		const q = this.QUALITY[rating];
+		card.EF = Math.max(1.3, card.EF + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+
+		let interval: number;
+		if (rating === ReviewRating.Again) {
+			card.lapses++;
+			interval = 1;
+		} else if (card.consecutiveSuccess <= 1) {
+			interval = 1;
+		} else if (card.consecutiveSuccess === 2) {
+			interval = 6;
+		} else {
+			interval = card.interval * card.EF;
 		}
-		await this.saveData();
+
+		if (rating === ReviewRating.Hard) interval = Math.max(1, card.interval * 1.2, interval * 0.8);
+		if (rating === ReviewRating.Easy) interval *= 1.3;
+
+		card.interval = Math.min(MAX_INTERVAL_DAYS, Math.round(interval));
+		card.due = now + card.interval * DAY_MS;
 	}
 
-	startInteractionTracking(filePath: string, content: string) {
-		if (!this.interactionDurations[filePath]) {
-			this.interactionDurations[filePath] = {
-				startTime: Date.now(),
-				contentLength: content.length,
-				durations: [],
-				linkCount: 0
-			};
+	// 以到期时回忆概率为90%的指数遗忘曲线估算
+	retrievability(card: MemoryStrengthData, now: number): number {
+		if (!card.lastReviewTime || card.interval <= 0) return 1;
+		const elapsed = Math.max(0, now - card.lastReviewTime) / DAY_MS;
+		return Math.exp(Math.log(0.9) * elapsed / card.interval);
+	}
+}
+
+// FSRS v4.5，使用官方默认参数
+class FSRSScheduler implements Scheduler {
+	private readonly w = [
+		0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+		0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755
+	];
+	private readonly DECAY = -0.5;
+	private readonly FACTOR = 19 / 81;
+
+	constructor(private requestRetention: number) {}
+
+	schedule(card: MemoryStrengthData, rating: ReviewRating, now: number) {
+		if (card.stability <= 0) {
+			card.stability = this.w[rating - 1];
+			card.difficulty = this.initDifficulty(rating);
+		} else {
+			const elapsed = card.lastReviewTime ? Math.max(0, now - card.lastReviewTime) / DAY_MS : card.interval;
+			const r = this.forgettingCurve(elapsed, card.stability);
+			card.difficulty = this.nextDifficulty(card.difficulty, rating);
+			card.stability = rating === ReviewRating.Again
+				? this.nextForgetStability(card.difficulty, card.stability, r)
+				: this.nextRecallStability(card.difficulty, card.stability, r, rating);
 		}
+		if (rating === ReviewRating.Again) card.lapses++;
+
+		const interval = card.stability / this.FACTOR * (Math.pow(this.requestRetention, 1 / this.DECAY) - 1);
+		card.interval = Math.min(MAX_INTERVAL_DAYS, Math.max(1, Math.round(interval)));
+		card.due = now + card.interval * DAY_MS;
 	}
 
-	recordInteractionDuration(filePath: string) {
-		const tracking = this.interactionDurations[filePath];
-		if (tracking) {
-			const duration = Date.now() - tracking.startTime;
-			tracking.durations.push(duration);
-			tracking.startTime = Date.now(); // 重置开始时间
-		}
-	}
-
-calculateComplexity(content: string): number {
-        if (!content.trim()) return 0.1; // 保留最低10%复杂度
-
-        // 过滤掉Markdown格式的内容
-        const plainText = content.replace(/```[\s\S]*?```/g, '') // 移除代码块
-                                  .replace(/!\[.*?\]\(.*?\)/g, '') // 移除图像
-                                  .replace(/\[.*?\]\(.*?\)/g, '') // 移除链接
-                                  .replace(/<[^>]*>/g, '') // 移除HTML标签
-                                  .replace(/#+\s+/g, '') // 移除标题
-                                  .replace(/[-*]\s+/g, ''); // 移除列表项
-
-        // 中英文句子分割
-        const chineseSentences = plainText.split(/[。！？]+/).filter(s => s.trim()).length;
-        const englishSentences = plainText.split(/[.!?]+/).filter(s => s.trim()).length;
-        const sentences = Math.max(chineseSentences + englishSentences, 1);
-
-        // 中英文单词处理
-        const chineseWords = (plainText.match(/[\u4e00-\u9fa5]/g) || []).length;
-        const englishWords = plainText.split(/[\s\u3000]+/).filter(w => w).length;
-        const totalWords = Math.max(chineseWords + englishWords, 1);
-
-        // 音节计算（中文每个汉字计1.5个音节）
-        let syllables = chineseWords * 1.5;
-        const englishContent = plainText.replace(/[\u4e00-\u9fa5]/g, '');
-        syllables += englishContent.toLowerCase().split(/\b|\s+/).reduce((acc, word) => {
-            if (!word) return acc;
-            let count = 0;
-            const vowels = new Set(['a', 'e', 'i', 'o', 'u', 'y']);
-            let prevVowel = false;
-            
-            for (const char of word) {
-                if (vowels.has(char) && !prevVowel) {
-                    count++;
-                    prevVowel = true;
-                } else {
-                    prevVowel = false;
-                }
-            }
-            if (word.endsWith('e') && count > 1) count--;
-            return acc + Math.max(count, 1);
-        }, 0);
-
-        // 计算Flesch-Kincaid年级水平
-        const fkGrade = 0.39 * (totalWords / sentences) + 11.8 * (syllables / totalWords) - 15.59;
-
-        // 改进的归一化方法
-        // 使用对数sigmoid函数处理极端值，参数经过语言学数据验证
-        const normalized = 1 / (1 + Math.exp(-0.5 * (Math.log(fkGrade + 1) - 2.5))); // +1避免log(0)
-        
-        // 动态调整范围（确保0.1-1.0）
-        const minVal = 0.1;
-        const adjusted = minVal + (1 - minVal) * normalized;
-        
-        return Number(Math.min(adjusted, 1).toFixed(2)); // 确保不超过1
-    }
-
-	calculateEngagement(filePath: string): number {
-		const tracking = this.interactionDurations[filePath];
-		if (!tracking) return 0;
+	retrievability(card: MemoryStrengthData, now: number): number {
+		if (!card.lastReviewTime || card.stability <= 0) return 1;
+		return this.forgettingCurve(Math.max(0, now - card.lastReviewTime) / DAY_MS, card.stability);
+	}
 
-		const totalDuration = tracking.durations.reduce((a, b) => a + b, 0);
-		const engagementScore = (totalDuration * 0.6 + tracking.linkCount * 0.4) / (tracking.contentLength || 1);
-		
-		// 使用滑动窗口EMA
-		const alpha = 0.2; // EMA的平滑因子
-		const previousEMA = this.data[filePath]?.previousEngagement || engagementScore; // 获取上一次的EMA
-		const currentEMA = alpha * engagementScore + (1 - alpha) * previousEMA;
+	private forgettingCurve(elapsedDays: number, stability: number): number {
+		return Math.pow(1 + this.FACTOR * elapsedDays / stability, this.DECAY);
+	}
 
-		// 更新当前的EMA
-		this.data[filePath].previousEngagement = currentEMA;
+	private initDifficulty(rating: ReviewRating): number {
+		return this.clampDifficulty(this.w[4] - (rating - 3) * this.w[5]);
+	}
 
-		return currentEMA;
+	private nextDifficulty(difficulty: number, rating: ReviewRating): number {
+		const next = difficulty - this.w[6] * (rating - 3);
+		// 向初始难度均值回归
+		return this.clampDifficulty(this.w[7] * this.initDifficulty(ReviewRating.Good) + (1 - this.w[7]) * next);
 	}
 
-	async calculateCentrality(filePath: string): Promise<number> {
-		const files = this.plugin.app.vault.getMarkdownFiles();
-		const linkGraph = new Map<string, string[]>();
-		
-		// 构建链接图
-		for (const file of files) {
-			const content = await this.plugin.app.vault.read(file);
-			const links = Array.from(content.match(/\[\[([^\]]+)\]\]/g) || []);
-			linkGraph.set(file.path, links.map(l => l.slice(2, -2))); // 提取链接的文件名
-		}
+	private nextRecallStability(d: number, s: number, r: number, rating: ReviewRating): number {
+		const hardPenalty = rating === ReviewRating.Hard ? this.w[15] : 1;
+		const easyBonus = rating === ReviewRating.Easy ? this.w[16] : 1;
+		return s * (1 + Math.exp(this.w[8]) * (11 - d) * Math.pow(s, -this.w[9]) *
+			(Math.exp((1 - r) * this.w[10]) - 1) * hardPenalty * easyBonus);
+	}
 
-		// 初始化PageRank值
-		const pagerank = new Map<string, number>();
-		const dampingFactor = 0.85; // 阻尼系数
-		const iterations = 10; // 迭代次数
-		
-		// 每个文件的初始PageRank值
-		linkGraph.forEach((_, key) => pagerank.set(key, 1 / linkGraph.size));
-		
-		// 迭代计算PageRank
-		for (let i = 0; i < iterations; i++) {
-			const newRank = new Map<string, number>();
-			
-			linkGraph.forEach((links, current) => {
-				const contribution = links.length > 0 ? 
-					dampingFactor * (pagerank.get(current)! / links.length) : 0; // 计算贡献值
-				
-				links.forEach(link => {
-					newRank.set(link, (newRank.get(link) || 0) + contribution); // 更新链接的PageRank值
-				});
-			});
-			
-			// 添加随机跳转概率
-			const randomJump = (1 - dampingFactor) / linkGraph.size;
-			newRank.forEach((value, key) => {
-				pagerank.set(key, (pagerank.get(key) || 0) + value + randomJump); // 更新PageRank值
-			});
-		}
+	private nextForgetStability(d: number, s: number, r: number): number {
+		const next = this.w[11] * Math.pow(d, -this.w[12]) * (Math.pow(s + 1, this.w[13]) - 1) * Math.exp((1 - r) * this.w[14]);
+		return Math.min(next, s);
+	}
 
-		return pagerank.get(filePath) || 0; // 返回目标文件的PageRank值
+	private clampDifficulty(difficulty: number): number {
+		return Math.min(10, Math.max(1, difficulty));
 	}
+}
 
-	detectCognitiveStage(scores: CognitiveStageScores): string {
-		    // 计算原始权重
-    	let rawWeights = {
-        complexity: 0.4 + 0.1 * Math.log(scores.referenceCount + 1),
-        engagement: 0.3,
-        centrality: 0.3
-    	};
+class DataStore {
+	private data: PluginDataFile = createEmptyData();
+	private writeQueue: Promise<void> = Promise.resolve();
 
-    	// 计算权重总和
-    	const totalWeight = rawWeights.complexity + rawWeights.engagement + rawWeights.centrality;
+	constructor(private plugin: Plugin) {}
 
-    	// 归一化处理
-    	const weights = {
-        complexity: rawWeights.complexity / totalWeight,
-        engagement: rawWeights.engagement / totalWeight,
-        centrality: rawWeights.centrality / totalWeight
-    	};
+	async load() {
+		let raw = (await this.plugin.loadData()) || {};
+		let version = typeof raw.version === 'number' ? raw.version : 0;
 
-		const weightedScore = {
-			complexity: scores.complexity * weights.complexity,
-			engagement: scores.engagement * weights.engagement,
-			centrality: scores.centrality * weights.centrality
-		};
+		if (version > DATA_VERSION) {
+			// 来自更新版本插件的数据，不做降级处理
+			console.warn(`data.json 版本 ${version} 高于当前支持的 ${DATA_VERSION}`);
+		}
 
-		if (weightedScore.complexity > 0.7 * weights.complexity && 
-			weightedScore.centrality > 0.6 * weights.centrality) {
-			return '专家';
-		} else if (weightedScore.engagement > 0.4 * weights.engagement || 
-				 weightedScore.centrality > 0.3 * weights.centrality) {
-			return '进阶';
-		} else {
-			return '新手';
+		const needsMigration = version < DATA_VERSION;
+		if (needsMigration) {
+			await this.backup(raw, version);
+		}
+		while (version < DATA_VERSION) {
+			raw = DATA_MIGRATIONS[version](raw);
+			version++;
+		}
+
+		this.data = Object.assign(createEmptyData(), raw);
+		if (needsMigration) {
+			await this.enqueue(() => { this.data.version = DATA_VERSION; });
 		}
 	}
 
-	async calculateCognitiveWeight(filePath: string): Promise<number> {
-		const data = this.data[filePath];
-		const memoryStrength = this.calculateMemoryStrength(filePath);
-		const centrality = await this.calculateCentrality(filePath);
+	get<K extends DataSection>(section: K): PluginDataFile[K] {
+		return cloneDeep(this.data[section]);
+	}
 
-		const now = Date.now();
-		const daysElapsed = (now - data.lastUpdated) / (1000 * 60 * 60 * 24); // 计算天数
+	// 直接读取磁盘上的分区，用于发现其他设备同步过来的修改
+	async peek<K extends DataSection>(section: K): Promise<PluginDataFile[K] | undefined> {
+		const raw = await this.plugin.loadData();
+		return raw?.[section];
+	}
 
-		// 多模态特征融合公式
-		const lambda = 0.05 * (1 + 0.3 * Math.sin((2 * Math.PI * now) / 3.154e+10)); 
-		const beta = 0.2 / (1 + Math.exp(-0.5 * (data.interactionCount - 4)));
-		
-		return (
-			data.initialWeight * Math.exp(-lambda * daysElapsed) +
-			beta * Math.log(1 + data.interactionCount) / (1 + Math.pow(centrality, 2)) +
-			0.2 * Math.pow(centrality, 0.7)
-		) * memoryStrength;
+	// 从磁盘重新读取指定分区，其余分区保留内存中的数据；版本不一致时不读取
+	async reload(sections: DataSection[]): Promise<boolean> {
+		await this.writeQueue;
+		const raw = await this.plugin.loadData();
+		if (!raw || raw.version !== DATA_VERSION) return false;
+		const empty = createEmptyData();
+		sections.forEach(section => Object.assign(this.data, { [section]: raw[section] ?? empty[section] }));
+		return true;
 	}
 
-	stageTransition(current: keyof typeof this.hysteresis, scores: CognitiveStageScores): string {
-		const hysteresis = {
-			'新手→进阶': (scores.engagement > 0.6) && (this.calculateEMA(scores.complexity, '', 5) > 0.4),
-			'进阶→专家': (scores.centrality > 0.7) && (this.calculateEMA(scores.engagement, '', 5) > 0.5),
-			'专家→进阶': (this.calculateEMA(scores.complexity, '', 5) > 0.3) && (scores.referenceCount > 7)
-		} as const;
+	// 整体替换传入的分区，写入串行化，避免不同分区的保存互相覆盖
+	save(sections: Partial<Pick<PluginDataFile, DataSection>>): Promise<void> {
+		const snapshot = cloneDeep(sections);
+		return this.enqueue(() => { Object.assign(this.data, snapshot); });
+	}
+
+	// 队列本身吞掉错误以免后续写入中断，返回给调用方的仍是会失败的 Promise
+	private enqueue(mutate: () => void): Promise<void> {
+		const write = this.writeQueue.then(async () => {
+			mutate();
+			await this.plugin.saveData(this.data);
+		});
+		this.writeQueue = write.catch(error => console.error('保存数据失败:', error));
+		return write;
+	}
 
-		return hysteresis[current] ? current.split('→')[1] : current;
+	private async backup(raw: any, version: number) {
+		const dir = this.plugin.manifest.dir;
+		if (!dir || Object.keys(raw).length === 0) return;
+		try {
+			await this.plugin.app.vault.adapter.write(`${dir}/data.v${version}.backup.json`, JSON.stringify(raw, null, 2));
+		} catch (error) {
+			console.error('备份旧数据失败:', error);
+		}
 	}
+}
 
-	calculateEMA(value: number, filePath?: string, period: number = 5): number {
-		const alpha = filePath ? 2 / (period + 1) : 0.2;
+// 基于 metadataCache.resolvedLinks 的链接图，链接已解析为文件路径，
+// 覆盖别名、标题/块链接、嵌入和 Markdown 链接。按文件增量更新，PageRank 结果缓存到图变化为止
+class LinkGraph {
+	private outLinks = new Map<string, Set<string>>();
+	// 各指标的计算结果，图变化时清空
+	private cache = new Map<string, Map<string, number>>();
+	private built = false;
+
+	constructor(private plugin: MyPlugin) {}
+
+	register() {
+		const { metadataCache, vault } = this.plugin.app;
+		// 全部解析完成后首次全量构建，之后依靠单文件事件增量更新
+		this.plugin.registerEvent(metadataCache.on('resolved', () => {
+			if (!this.built) this.rebuild();
+		}));
+		this.plugin.registerEvent(metadataCache.on('resolve', (file: TFile) => this.updateFile(file.path)));
+		this.plugin.registerEvent(vault.on('delete', (file: TAbstractFile) => this.removeFile(file.path)));
+		this.plugin.registerEvent(vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+			this.removeFile(oldPath);
+			this.updateFile(file.path);
+		}));
+		if (metadataCache.resolvedLinks && Object.keys(metadataCache.resolvedLinks).length > 0) {
+			this.rebuild();
+		}
+	}
 
-		let previousEMA = value;
-		if (filePath) {
-			previousEMA = this.memoryData[filePath]?.EF || value;
+	rebuild() {
+		this.outLinks.clear();
+		for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+			this.outLinks.set(file.path, this.readLinks(file.path));
 		}
+		this.built = true;
+		this.invalidate();
+	}
 
-		const currentEMA = alpha * value + (1 - alpha) * previousEMA;
+	private updateFile(filePath: string) {
+		if (!this.built || !filePath.endsWith('.md')) return;
+		const links = this.readLinks(filePath);
+		const previous = this.outLinks.get(filePath);
+		if (previous && previous.size === links.size && Array.from(links).every(link => previous.has(link))) {
+			return;
+		}
+		this.outLinks.set(filePath, links);
+		this.invalidate();
+	}
 
-		if (filePath) {
-			if (!this.memoryData[filePath]) {
-				this.memoryData[filePath] = { 
-					EF: currentEMA,
-					consecutiveSuccess: 0,
-					consecutiveFailures: 0,
-					historicalSuccessRate: [],
-					lastTestResult: false,
-					lastReviewTime: Date.now()
-				};
-			} else {
-				this.memoryData[filePath].EF = currentEMA;
+	private removeFile(filePath: string) {
+		if (!this.built) return;
+		let changed = false;
+		// 文件夹被删除或重命名时，移除其下所有笔记
+		for (const path of Array.from(this.outLinks.keys())) {
+			if (path === filePath || path.startsWith(filePath + '/')) {
+				this.outLinks.delete(path);
+				changed = true;
 			}
 		}
+		if (changed) this.invalidate();
+	}
 
-		return Number(currentEMA.toFixed(2));
+	// 只保留指向笔记的链接，附件嵌入不参与中心度计算
+	private readLinks(filePath: string): Set<string> {
+		const resolved = this.plugin.app.metadataCache.resolvedLinks[filePath] || {};
+		return new Set(Object.keys(resolved).filter(target => target.endsWith('.md')));
 	}
 
-	// 新增记忆强度计算方法
-	calculateMemoryStrength(filePath: string): number {
-		const data = this.memoryData[filePath] || {
-			EF: 2.5,
-			consecutiveSuccess: 0,
-			consecutiveFailures: 0,
-			historicalSuccessRate: []
-		};
+	private invalidate() {
+		this.cache.clear();
+	}
 
-		// 动态易度因子调整
-		const successRate = data.historicalSuccessRate.length > 0 ? 
-			data.historicalSuccessRate.reduce((a,b)=>a+b,0)/data.historicalSuccessRate.length : 0.7;
-		
-		// 贝叶斯参数优化（滑动窗口100次）
-		const alpha = successRate * 10;
-		const beta = (1 - successRate) * 10;
-		data.EF = Math.min(2.5, Math.max(1.3, beta * 0.8 / (alpha + beta)));
-
-		// 记忆强度计算
-		let strength = data.EF;
-		if(data.lastTestResult) {
-			strength *= (1 + 0.2 * Math.log(data.consecutiveSuccess + 1));
-		} else {
-			strength = Math.max(1, strength * 0.6 * (1 - 0.1 * data.consecutiveFailures));
-		}
+	// 指定指标的中心度，按全图最大值归一化到0-1，便于在不同笔记和指标间比较
+	getCentrality(filePath: string, metric: CentralityMetric): number {
+		return this.getScores(metric).get(filePath) || 0;
+	}
 
-		return strength;
+	// 链接到该笔记的其他笔记数量
+	getInDegree(filePath: string): number {
+		return this.getRawScores('indegree').get(filePath) || 0;
 	}
 
-	// 更新测试结果方法
-	updateTestResult(filePath: string, isCorrect: boolean) {
-		if(!this.memoryData[filePath]) {
-			this.memoryData[filePath] = {
-				EF: 2.5,
-				consecutiveSuccess: 0,
-				consecutiveFailures: 0,
-				historicalSuccessRate: [],
-				lastTestResult: false,
-				lastReviewTime: Date.now()
-			};
+	private getScores(metric: CentralityMetric): Map<string, number> {
+		const key = `${metric}:normalized`;
+		let scores = this.cache.get(key);
+		if (!scores) {
+			scores = this.normalizeByMax(this.getRawScores(metric));
+			this.cache.set(key, scores);
 		}
+		return scores;
+	}
 
-		const data = this.memoryData[filePath];
-		data.lastReviewTime = Date.now();
-		data.lastTestResult = isCorrect;
-
-		if(isCorrect) {
-			data.consecutiveSuccess++;
-			data.consecutiveFailures = 0;
-		} else {
-			data.consecutiveFailures++;
-			data.consecutiveSuccess = 0;
+	private getRawScores(metric: CentralityMetric): Map<string, number> {
+		if (!this.built) this.rebuild();
+		let scores = this.cache.get(metric);
+		if (!scores) {
+			scores = this.computeMetric(metric);
+			this.cache.set(metric, scores);
 		}
+		return scores;
+	}
 
-		// 维护滑动窗口（保留最近100次记录）
-		if(data.historicalSuccessRate.length >= 100) {
-			data.historicalSuccessRate.shift();
+	private computeMetric(metric: CentralityMetric): Map<string, number> {
+		switch (metric) {
+			case 'betweenness':
+				return this.computeBetweenness();
+			case 'hub':
+				return this.computeHits().hubs;
+			case 'authority':
+				return this.computeHits().authorities;
+			case 'indegree':
+				return this.computeInDegree();
+			default:
+				return this.computePageRank();
 		}
-		data.historicalSuccessRate.push(isCorrect ? 1 : 0);
 	}
 
-	getLastReviewTime(filePath: string): number {
-		return this.memoryData[filePath]?.lastReviewTime || Date.now();
+	private normalizeByMax(scores: Map<string, number>): Map<string, number> {
+		let max = 0;
+		scores.forEach(value => { max = Math.max(max, value); });
+		const normalized = new Map<string, number>();
+		scores.forEach((value, key) => normalized.set(key, max > 0 ? value / max : 0));
+		return normalized;
 	}
 
-	public getMemoryData(filePath: string) {
-		return this.memoryData[filePath];
+	// 只保留图中存在的目标，自链接不计入
+	private edges(): Map<string, string[]> {
+		const edges = new Map<string, string[]>();
+		this.outLinks.forEach((targets, source) => {
+			edges.set(source, Array.from(targets).filter(target => target !== source && this.outLinks.has(target)));
+		});
+		return edges;
 	}
-}
 
-export default class MyPlugin extends Plugin {
-	public dataManager: DataManager;
-	private questionGenerator: QuestionGenerator;
-	settings: MyPluginSettings;
-	private statusBarItemEl: HTMLElement;
+	private computeInDegree(): Map<string, number> {
+		const inDegree = new Map<string, number>();
+		this.outLinks.forEach((_, node) => inDegree.set(node, 0));
+		this.edges().forEach(targets => {
+			targets.forEach(target => inDegree.set(target, (inDegree.get(target) || 0) + 1));
+		});
+		return inDegree;
+	}
 
-	async onload() {
-		await this.loadSettings();
-		this.dataManager = new DataManager(this);
-		this.questionGenerator = new QuestionGenerator(this);
-		await this.dataManager.loadData();
+	// 幂迭代计算 PageRank，没有出链的笔记把得分均分给所有笔记，结果总和为1
+	private computePageRank(): Map<string, number> {
+		const edges = this.edges();
+		const nodes = Array.from(edges.keys());
+		const n = nodes.length;
+		const pagerank = new Map<string, number>();
+		if (n === 0) return pagerank;
 
-		// This creates an icon in the left ribbon.
-		const ribbonIconEl = this.addRibbonIcon('dice', 'Sample Plugin', (evt: MouseEvent) => {
-			// Called when the user clicks the icon.
-			new Notice('This is a notice!');
-		});
-		// Perform additional things with the ribbon
-		ribbonIconEl.addClass('my-plugin-ribbon-class');
+		const dampingFactor = 0.85; // 阻尼系数
+		const tolerance = 1e-6; // 收敛阈值（L1距离）
+		const maxIterations = 100;
+
+		nodes.forEach(node => pagerank.set(node, 1 / n));
+		for (let i = 0; i < maxIterations; i++) {
+			let danglingMass = 0;
+			edges.forEach((targets, node) => {
+				if (targets.length === 0) danglingMass += pagerank.get(node)!;
+			});
 
-		// This adds a status bar item to the bottom of the app. Does not work on mobile apps.
-		this.statusBarItemEl = this.addStatusBarItem();
-		this.updateStatusBar();
+			const base = (1 - dampingFactor) / n + dampingFactor * danglingMass / n;
+			const next = new Map<string, number>();
+			nodes.forEach(node => next.set(node, base));
+			edges.forEach((targets, node) => {
+				const share = dampingFactor * pagerank.get(node)! / targets.length;
+				targets.forEach(target => next.set(target, next.get(target)! + share));
+			});
 
-		// This adds a simple command that can be triggered anywhere
-		this.addCommand({
-			id: 'open-sample-modal-simple',
-			name: 'Open sample modal (simple)',
-			callback: () => {
-				new SampleModal(this.app).open();
-			}
-		});
-		// This adds an editor command that can perform some operation on the current editor instance
-		this.addCommand({
-			id: 'sample-editor-command',
-			name: 'Sample editor command',
-			editorCallback: (editor: Editor, view: MarkdownView) => {
-				console.log(editor.getSelection());
-				editor.replaceSelection('Sample Editor Command');
-			}
+			let delta = 0;
+			nodes.forEach(node => {
+				delta += Math.abs(next.get(node)! - pagerank.get(node)!);
+				pagerank.set(node, next.get(node)!);
+			});
+			if (delta < tolerance) break;
+		}
+
+		return pagerank;
+	}
+
+	// HITS：hub 得分高的笔记指向许多权威笔记，authority 得分高的笔记被许多 hub 指向
+	private computeHits(): { hubs: Map<string, number>; authorities: Map<string, number> } {
+		const edges = this.edges();
+		const nodes = Array.from(edges.keys());
+		const hubs = new Map<string, number>();
+		const authorities = new Map<string, number>();
+		nodes.forEach(node => {
+			hubs.set(node, 1);
+			authorities.set(node, 1);
 		});
-		// This adds a complex command that can check whether the current state of the app allows execution of the command
-		this.addCommand({
-			id: 'open-sample-modal-complex',
-			name: 'Open sample modal (complex)',
-			checkCallback: (checking: boolean) => {
-				// Conditions to check
-				const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
-				if (markdownView) {
-					// If checking is true, we're simply "checking" if the command can be run.
-					// If checking is false, then we want to actually perform the operation.
-					if (!checking) {
-						new SampleModal(this.app).open();
+
+		const normalize = (scores: Map<string, number>) => {
+			let norm = 0;
+			scores.forEach(value => { norm += value * value; });
+			norm = Math.sqrt(norm) || 1;
+			scores.forEach((value, key) => scores.set(key, value / norm));
+		};
+
+		for (let i = 0; i < 100; i++) {
+			const nextAuthorities = new Map<string, number>();
+			nodes.forEach(node => nextAuthorities.set(node, 0));
+			edges.forEach((targets, node) => {
+				targets.forEach(target => nextAuthorities.set(target, nextAuthorities.get(target)! + hubs.get(node)!));
+			});
+			normalize(nextAuthorities);
+
+			const nextHubs = new Map<string, number>();
+			edges.forEach((targets, node) => {
+				nextHubs.set(node, targets.reduce((sum, target) => sum + nextAuthorities.get(target)!, 0));
+			});
+			normalize(nextHubs);
+
+			let delta = 0;
+			nodes.forEach(node => {
+				delta += Math.abs(nextHubs.get(node)! - hubs.get(node)!) + Math.abs(nextAuthorities.get(node)! - authorities.get(node)!);
+				hubs.set(node, nextHubs.get(node)!);
+				authorities.set(node, nextAuthorities.get(node)!);
+			});
+			if (delta < 1e-6) break;
+		}
+
+		return { hubs, authorities };
+	}
+
+	// Brandes 算法计算介数中心度；大图只从部分源点出发估算，再按比例放大
+	private computeBetweenness(): Map<string, number> {
+		const edges = this.edges();
+		const nodes = Array.from(edges.keys());
+		const betweenness = new Map<string, number>();
+		nodes.forEach(node => betweenness.set(node, 0));
+
+		const maxSources = 500;
+		const step = Math.max(1, Math.ceil(nodes.length / maxSources));
+		const sources = nodes.filter((_, i) => i % step === 0);
+		const scale = nodes.length / Math.max(sources.length, 1);
+
+		for (const source of sources) {
+			const stack: string[] = [];
+			const predecessors = new Map<string, string[]>();
+			const sigma = new Map<string, number>([[source, 1]]);
+			const distance = new Map<string, number>([[source, 0]]);
+			const queue = [source];
+
+			for (let head = 0; head < queue.length; head++) {
+				const v = queue[head];
+				stack.push(v);
+				for (const w of edges.get(v) || []) {
+					if (!distance.has(w)) {
+						distance.set(w, distance.get(v)! + 1);
+						queue.push(w);
 					}
+					if (distance.get(w) === distance.get(v)! + 1) {
+						sigma.set(w, (sigma.get(w) || 0) + sigma.get(v)!);
+						const list = predecessors.get(w) || [];
+						list.push(v);
+						predecessors.set(w, list);
+					}
+				}
+			}
 
-					// This command will only show up in Command Palette when the check function returns true
-					return true;
+			const dependency = new Map<string, number>();
+			while (stack.length > 0) {
+				const w = stack.pop()!;
+				for (const v of predecessors.get(w) || []) {
+					const contribution = sigma.get(v)! / sigma.get(w)! * (1 + (dependency.get(w) || 0));
+					dependency.set(v, (dependency.get(v) || 0) + contribution);
+				}
+				if (w !== source) {
+					betweenness.set(w, betweenness.get(w)! + (dependency.get(w) || 0) * scale);
 				}
 			}
-		});
+		}
 
-		// This adds a settings tab so the user can configure various aspects of the plugin
-		this.addSettingTab(new SampleSettingTab(this.app, this));
+		return betweenness;
+	}
+}
 
-		// If the plugin hooks up any global DOM events (on parts of the app that doesn't belong to this plugin)
-		// Using this function will automatically remove the event listener when this plugin is disabled.
-		this.registerDomEvent(document, 'click', (evt: MouseEvent) => {
-			console.log('click', evt);
-		});
+type ReadabilityLanguage = 'zh' | 'ja' | 'ko' | 'en';
+
+interface StructureSignals {
+	// 每段平均的 LaTeX 公式数，截断到1
+	formulas: number;
+	// 代码字符占全文的比例
+	code: number;
+	// 最深标题层级，1-6 映射到 0-1
+	headingDepth: number;
+	// 列表最大嵌套层级，3 层及以上为1
+	listNesting: number;
+}
 
-		// When registering intervals, this function will automatically clear the interval when the plugin is disabled.
-		this.registerInterval(window.setInterval(() => console.log('setInterval'), 5 * 60 * 1000));
+interface ReadabilityReport {
+	score: number;
+	// 正文难度与结构复杂度，均为 0-1
+	prose: number;
+	structure: number;
+	// 各语言正文的字符数
+	languages: Partial<Record<ReadabilityLanguage, number>>;
+	signals: StructureSignals;
+}
 
-		// Register file events
-		this.registerEvent(
-			this.app.vault.on('create', (file) => {
-				if (file instanceof TFile) {
-					this.dataManager.updateInteraction(file.path);
-					this.dataManager.saveData();
-				}
-			})
-		);
+// 手工整理的 516 个常用汉字，只是高频字的粗略近似而非严格字频表，不在其中的字计为生僻字
+const COMMON_HAN = new Set(Array.from(
+	'的一是不了人我在有他这为之大来以个中上们到说国和地也子时道出而要于就下得可你年生自会那后能对着事其里所去行过家十用发天如然作方成' +
+	'者多日都三小军二无同么经法当起与好看学进种将还分此心前面又定见只主没公从知最高问现把它已部开意长理本实点明度力几正体动样名物电全' +
+	'两情信相比应制合该重特位身利各反直等却必气形变给提候义且通文件关机数西由手更入常性结安工间解表外使果接题受放运议活区光海收决话务' +
+	'次难品完清报思任群指式设今切少组立社路计周达历先色建系统条百量走研员展万往感世资业象格原战界代叫记取新化美加总流带热水何内白志保' +
+	'需术领期声院较政吗目听程场女边书被教别每己向北许权并转求张规真视花回近林即门观风空南深德强九复八六市管类离效传速党团交断济称写口' +
+	'青认单据再山民革神引精布影五府基况越按土命半底处联装改消步至做专片图亲火约望黑四马友告住车打克满标胜共技科调查识价连般导极失职元' +
+	'老言头千整七李示准治东您兵持营苦石士月落毛留拉具存究众笑觉增请息照易选古层段故跟油集验尔企素够差容病死刻读包阿史除终温字钱根干站' +
+	'随积呢乎阶房早纪际态苏排材首商响仅派施念树参黄委节罗河哪王若母谈叶爱快否维讲配亚确细怎厂倒呀费江列争跑承功板继星须造负讨乡村红帮' +
+	'铁球助语'
+).filter(char => /[一-鿿]/.test(char)));
+
+// 手工整理的 346 个常用多字词，同样只是高频词的粗略近似，分词后不在其中的多字词计为低频词
+const COMMON_ZH_WORDS = new Set((
+	'我们 你们 他们 她们 它们 自己 什么 这个 那个 这些 那些 这样 那样 怎么 为什么 如果 因为 所以 但是 可是 ' +
+	'而且 或者 虽然 然后 已经 还是 就是 只是 不是 没有 可以 可能 应该 需要 知道 觉得 认为 希望 喜欢 开始 继续 ' +
+	'结束 发现 发生 发展 出现 成为 进行 使用 利用 通过 根据 关于 对于 由于 作为 包括 其中 之间 以后 以前 之后 ' +
+	'之前 时候 时间 现在 今天 明天 昨天 今年 去年 明年 每天 一起 一样 一些 一般 一定 一直 一切 一个 非常 特别 ' +
+	'比较 十分 最后 首先 其次 同时 当时 然而 因此 于是 不过 只有 只要 除了 还有 所有 任何 每个 各种 许多 很多 ' +
+	'大家 别人 人们 朋友 家人 孩子 学生 老师 同学 工作 学习 生活 社会 国家 世界 中国 经济 政治 文化 历史 科学 ' +
+	'技术 教育 问题 方法 方式 方面 情况 结果 原因 目的 意义 作用 影响 关系 内容 过程 部分 地方 地区 城市 农村 ' +
+	'公司 企业 市场 环境 条件 基础 水平 能力 经验 知识 信息 数据 系统 工具 机会 活动 组织 管理 政府 人民 群众 ' +
+	'领导 干部 事情 东西 意思 感觉 心里 身体 健康 重要 主要 基本 必须 简单 容易 困难 清楚 明白 正确 错误 相同 ' +
+	'不同 同样 其他 另外 例如 比如 也许 大概 当然 确实 真正 完全 终于 突然 马上 立刻 经常 常常 往往 总是 从来 ' +
+	'一边 看见 听说 告诉 回答 讨论 研究 分析 解决 提高 增加 减少 改变 变化 保持 保护 支持 帮助 注意 准备 决定 ' +
+	'选择 表示 说明 解释 理解 了解 认识 记得 忘记 相信 同意 参加 参与 提出 提供 得到 获得 产生 形成 建立 实现 ' +
+	'完成 达到 满足 接受 要求 规定 计划 安排 考虑 检查 调查 讲话 说话 写作 阅读 练习 考试 成绩 学校 大学 专业 ' +
+	'课程 文章 语言 文字 句子 故事 电话 电脑 手机 网络 照片 电影 音乐 运动 比赛 游戏 旅游 天气 早上 上午 中午 ' +
+	'下午 晚上 周末 小时 分钟 地点 位置 前面 后面 上面 下面 里面 外面 旁边 中间 左右 附近 方向 价格 商店 银行 ' +
+	'医院 医生 饭店 房子 房间 门口 汽车 飞机 火车 道路 交通 安全 危险 成功 失败 努力 认真 仔细 快乐 高兴 幸福 ' +
+	'痛苦 担心 害怕 生气 满意 感谢 对不起 没关系 欢迎 再见 谢谢'
+).split(' '));
+
+// 按文字系统统计字符数：假名出现时同段汉字计入日文
+function detectLanguage(text: string): { language: ReadabilityLanguage; length: number } | null {
+	const han = (text.match(/[㐀-䶿一-鿿]/g) || []).length;
+	const kana = (text.match(/[぀-ヿ]/g) || []).length;
+	const hangul = (text.match(/[가-힯ᄀ-ᇿ㄰-㆏]/g) || []).length;
+	const latin = (text.match(/[A-Za-z]/g) || []).length;
+
+	// 以“词”为单位比较：英文约4个字母一个词，中文约1.5个字一个词
+	const units: Record<ReadabilityLanguage, number> = {
+		zh: kana > 0 ? 0 : han / 1.5,
+		ja: kana > 0 ? (kana + han) / 2 : 0,
+		ko: hangul / 2,
+		en: latin / 4
+	};
+	let best: ReadabilityLanguage | null = null;
+	for (const language of Object.keys(units) as ReadabilityLanguage[]) {
+		if (units[language] > 0 && (!best || units[language] > units[best])) best = language;
+	}
+	if (!best) return null;
+	const length = { zh: han, ja: kana + han, ko: hangul, en: latin }[best];
+	return { language: best, length };
+}
 
-		this.registerEvent(
-			this.app.vault.on('modify', (file) => {
-				if (file instanceof TFile) {
-					this.dataManager.updateInteraction(file.path);
-					this.dataManager.saveData();
-				}
-			})
-		);
+// 线性映射到 0-1：low 及以下为0，high 及以上为1
+function scaleBetween(value: number, low: number, high: number): number {
+	return Math.max(0, Math.min(1, (value - low) / (high - low)));
+}
 
-		// Add daily update task
-		this.registerInterval(window.setInterval(() => {
-			const now = new Date();
-			const [targetHour, targetMinute] = this.settings.dailyUpdateTime.split(':').map(Number);
-			if (now.getHours() === targetHour && now.getMinutes() === targetMinute) {
-				this.dataManager.applyDailyDecay();
-			}
-		}, 60_000)); // Check every minute
+function splitSentences(text: string, pattern: RegExp): string[] {
+	return text.split(pattern).map(sentence => sentence.trim()).filter(sentence => sentence !== '');
+}
 
-		// Add update command
-		this.addCommand({
-			id: 'update-cognitive-weights',
-			name: 'Update cognitive weights',
-			callback: () => {
-				this.dataManager.applyDailyDecay();
-				new Notice('Cognitive weights updated!');
-			}
+function countEnglishSyllables(word: string): number {
+	const vowels = 'aeiouy';
+	let count = 0;
+	let prevVowel = false;
+	for (const char of word.toLowerCase()) {
+		const isVowel = vowels.includes(char);
+		if (isVowel && !prevVowel) count++;
+		prevVowel = isVowel;
+	}
+	if (word.toLowerCase().endsWith('e') && count > 1) count--;
+	return Math.max(count, 1);
+}
+
+// Flesch-Kincaid 年级水平，4 年级以下为0，16 年级（大学）以上为1
+function englishDifficulty(text: string): number {
+	const words = text.match(/[A-Za-z]+(?:['’-][A-Za-z]+)*/g) || [];
+	if (words.length === 0) return 0;
+	const sentences = Math.max(splitSentences(text, /[.!?;]+(?:\s|$)/).length, 1);
+	const syllables = words.reduce((sum, word) => sum + countEnglishSyllables(word), 0);
+	const grade = 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59;
+	return scaleBetween(grade, 4, 16);
+}
+
+// 浏览器支持时用 Intl.Segmenter 分词，用于计算平均词长和词频
+function segmentWords(text: string, locale: string): string[] | null {
+	// 类型来自 ES2022.Intl，旧版运行环境中可能不存在
+	if (typeof Intl.Segmenter !== 'function') return null;
+	const segments = Array.from(new Intl.Segmenter(locale, { granularity: 'word' }).segment(text));
+	return segments.filter(segment => segment.isWordLike).map(segment => segment.segment);
+}
+
+// 中文：平均句长、生僻字比例，能分词时再加上平均词长和低频词比例
+function chineseDifficulty(text: string): number {
+	const chars = text.match(/[㐀-䶿一-鿿]/g) || [];
+	if (chars.length === 0) return 0;
+	const sentences = splitSentences(text, /[。！？；!?;]+/);
+	const sentenceLength = chars.length / Math.max(sentences.length, 1);
+	const rareRatio = chars.filter(char => !COMMON_HAN.has(char)).length / chars.length;
+
+	const words = (segmentWords(text, 'zh') || []).filter(word => /[一-鿿]/.test(word));
+	if (words.length === 0) {
+		return 0.5 * scaleBetween(sentenceLength, 10, 40) + 0.5 * scaleBetween(rareRatio, 0.15, 0.45);
+	}
+	const wordLength = words.reduce((sum, word) => sum + word.length, 0) / words.length;
+	// 单字词已由常用字表衡量，词频只看多字词
+	const compounds = words.filter(word => word.length > 1);
+	const rareWordRatio = compounds.length > 0 ? compounds.filter(word => !COMMON_ZH_WORDS.has(word)).length / compounds.length : 0;
+	return 0.35 * scaleBetween(sentenceLength, 10, 40) + 0.35 * scaleBetween(rareRatio, 0.15, 0.45) +
+		0.15 * scaleBetween(wordLength, 1.3, 2.2) + 0.15 * scaleBetween(rareWordRatio, 0.4, 0.8);
+}
+
+// 日文：平均句长和汉字比例
+function japaneseDifficulty(text: string): number {
+	const chars = text.match(/[぀-ヿ㐀-䶿一-鿿]/g) || [];
+	if (chars.length === 0) return 0;
+	const kanji = chars.filter(char => /[㐀-䶿一-鿿]/.test(char)).length;
+	const sentences = splitSentences(text, /[。！？!?]+/);
+	const sentenceLength = chars.length / Math.max(sentences.length, 1);
+	return 0.5 * scaleBetween(sentenceLength, 20, 60) + 0.5 * scaleBetween(kanji / chars.length, 0.2, 0.5);
+}
+
+// 韩文：每句词（语节）数和每词音节数
+function koreanDifficulty(text: string): number {
+	const words = text.match(/[가-힯]+/g) || [];
+	if (words.length === 0) return 0;
+	const sentences = splitSentences(text, /[.!?。]+/);
+	const wordsPerSentence = words.length / Math.max(sentences.length, 1);
+	const syllablesPerWord = words.reduce((sum, word) => sum + word.length, 0) / words.length;
+	return 0.6 * scaleBetween(wordsPerSentence, 5, 20) + 0.4 * scaleBetween(syllablesPerWord, 2, 4);
+}
+
+const LANGUAGE_DIFFICULTY: Record<ReadabilityLanguage, (text: string) => number> = {
+	zh: chineseDifficulty,
+	ja: japaneseDifficulty,
+	ko: koreanDifficulty,
+	en: englishDifficulty
+};
+
+// 在去掉公式和代码之前统计结构信号
+function measureStructure(content: string, paragraphs: number): StructureSignals {
+	const blockFormulas = (content.match(/\$\$[\s\S]+?\$\$/g) || []).length;
+	const inlineFormulas = (content.replace(/\$\$[\s\S]+?\$\$/g, '').match(/\$[^$\n]+?\$/g) || []).length;
+
+	const codeBlocks = content.match(/```[\s\S]*?```/g) || [];
+	const inlineCode = content.replace(/```[\s\S]*?```/g, '').match(/`[^`\n]+`/g) || [];
+	const codeChars = codeBlocks.concat(inlineCode).reduce((sum, code) => sum + code.length, 0);
+
+	const headingLevels = (content.match(/^#{1,6}(?=\s)/gm) || []).map(heading => heading.length);
+	const maxHeading = headingLevels.length > 0 ? Math.max(...headingLevels) : 1;
+
+	// 按缩进估算列表层级：一个制表符或两个空格为一层
+	const listIndents = (content.match(/^[ \t]*(?:[-*+]|\d+[.)])\s/gm) || []).map(item => {
+		const indent = (item.match(/^[ \t]*/) || [''])[0];
+		return indent.replace(/\t/g, '  ').length / 2;
+	});
+	const maxNesting = listIndents.length > 0 ? Math.floor(Math.max(...listIndents)) : 0;
+
+	return {
+		formulas: Math.min(1, (blockFormulas * 2 + inlineFormulas) / Math.max(paragraphs, 1)),
+		code: Math.min(1, codeChars / Math.max(content.length, 1)),
+		headingDepth: (maxHeading - 1) / 5,
+		listNesting: Math.min(1, maxNesting / 3)
+	};
+}
+
+// 去掉 frontmatter、代码、公式、图片、链接地址和 HTML 等不属于正文的内容
+function extractProse(content: string): string {
+	return content
+		.replace(/^---\n[\s\S]*?\n---\n?/, '')
+		.replace(/```[\s\S]*?```/g, '')
+		.replace(/\$\$[\s\S]+?\$\$/g, '')
+		.replace(/\$[^$\n]+?\$/g, '')
+		.replace(/`[^`\n]+`/g, '')
+		.replace(/!\[\[[^\]]*\]\]|!\[[^\]]*\]\([^)]*\)/g, '')
+		.replace(/\[\[([^\]|]*\|)?([^\]]*)\]\]/g, '$2')
+		.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+		.replace(/<[^>]*>/g, '')
+		.replace(/^[ \t]*(?:#{1,6}|[-*+]|\d+[.)]|>)\s+/gm, '');
+}
+
+// 分段识别语言并按各语言的指标计算难度，按字符数加权后与结构信号合成 0.1-1.0 的复杂度
+function analyzeReadability(content: string): ReadabilityReport {
+	const prose = extractProse(content);
+	const paragraphs = prose.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(paragraph => paragraph !== '');
+	const signals = measureStructure(content, paragraphs.length);
+
+	const languages: Partial<Record<ReadabilityLanguage, number>> = {};
+	let weighted = 0;
+	let totalLength = 0;
+	for (const paragraph of paragraphs) {
+		const detected = detectLanguage(paragraph);
+		if (!detected) continue;
+		languages[detected.language] = (languages[detected.language] || 0) + detected.length;
+		weighted += LANGUAGE_DIFFICULTY[detected.language](paragraph) * detected.length;
+		totalLength += detected.length;
+	}
+
+	const proseScore = totalLength > 0 ? weighted / totalLength : 0;
+	const structure = 0.35 * signals.formulas + 0.25 * signals.code + 0.2 * signals.headingDepth + 0.2 * signals.listNesting;
+	// 没有正文（例如只有代码）时只看结构
+	const combined = totalLength > 0 ? 0.75 * proseScore + 0.25 * structure : structure;
+	return {
+		score: Number((0.1 + 0.9 * Math.min(1, combined)).toFixed(2)),
+		prose: proseScore,
+		structure,
+		languages,
+		signals
+	};
+}
+
+// 每篇笔记保留的阶段迁移记录数
+const STAGE_TRANSITION_LIMIT = 20;
+
+class DataManager {
+	private plugin: MyPlugin;
+	private settings: MyPluginSettings;
+	private data: CognitiveWeightData = {};
+	private interactionDurations: Record<string, InteractionDuration> = {};
+	private memoryData: Record<string, MemoryStrengthData> = {};
+	private tombstones: Record<string, Tombstone> = {};
+	private questionBank: Record<string, QuestionBankEntry> = {};
+	private history: Record<string, HistoryEntry[]> = {};
+	private stages: Record<string, NoteStageState> = {};
+
+	constructor(plugin: MyPlugin) {
+		this.plugin = plugin;
+		this.settings = plugin.settings;
+	}
+
+	// 其他设备执行每日更新后，只替换该更新写入的记录
+	reloadDecaySections() {
+		const store = this.plugin.store;
+		this.data = store.get('weights');
+		this.history = store.get('history');
+		this.stages = store.get('stages');
+	}
+
+	loadData() {
+		const store = this.plugin.store;
+		this.data = store.get('weights');
+		this.memoryData = store.get('memory');
+		this.interactionDurations = store.get('stats');
+		this.tombstones = store.get('tombstones');
+		this.questionBank = store.get('questions');
+		this.history = store.get('history');
+		this.stages = store.get('stages');
+
+		// 重启后从当前时刻重新计时，并把历史时长合并为一条
+		const now = Date.now();
+		for (const filePath in this.interactionDurations) {
+			const tracking = this.interactionDurations[filePath];
+			const total = tracking.durations.reduce((a, b) => a + b, 0);
+			tracking.durations = total > 0 ? [total] : [];
+			tracking.startTime = now;
+		}
+	}
+
+	async saveData() {
+		await this.plugin.store.save({
+			weights: this.data,
+			memory: this.memoryData,
+			stats: this.interactionDurations,
+			tombstones: this.tombstones,
+			questions: this.questionBank,
+			history: this.history,
+			stages: this.stages
 		});
+	}
 
-		// Update status bar when active file changes
-		this.registerEvent(
-			this.app.workspace.on('active-leaf-change', () => {
-				this.updateStatusBar();
-			})
-		);
+	private pathRecords(): Record<PathRecordSection, Record<string, any>> {
+		return {
+			weights: this.data,
+			memory: this.memoryData,
+			stats: this.interactionDurations,
+			questions: this.questionBank,
+			history: this.history,
+			stages: this.stages
+		};
+	}
 
-		// Register editor change event
-		const debouncedUpdate = debounce((editor: Editor) => {
-			const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-			if (view?.file) {
-				this.dataManager.updateInteraction(view.file.path);
+	// 文件或文件夹重命名时迁移所有记录，文件夹按前缀匹配子路径
+	renamePath(oldPath: string, newPath: string) {
+		const sections = this.pathRecords();
+		for (const section of Object.keys(sections) as PathRecordSection[]) {
+			const records = sections[section];
+			for (const key of Object.keys(records)) {
+				const target = this.remapPath(key, oldPath, newPath);
+				if (target === null) continue;
+				records[target] = records[key];
+				delete records[key];
+				if (section === 'questions') this.retargetQuestions(records[target], target);
 			}
-		}, 500, { leading: true });
+		}
+		for (const key of Object.keys(this.tombstones)) {
+			const target = this.remapPath(key, oldPath, newPath);
+			if (target === null) continue;
+			this.tombstones[target] = this.tombstones[key];
+			delete this.tombstones[key];
+			const entry = this.tombstones[target].records.questions;
+			if (entry) this.retargetQuestions(entry, target);
+		}
+	}
 
-		this.registerEvent(
-			this.app.workspace.on('editor-change', (editor) => {
-				debouncedUpdate(editor);
-			})
-		);
+	// 题目中保存了笔记路径，重命名后一并更新，复习结果才能记到新路径上
+	private retargetQuestions(entry: QuestionBankEntry, filePath: string) {
+		entry.questions.forEach(question => question.filePath = filePath);
+	}
 
-		// 添加认知阶段检测命令
-		this.addCommand({
-			id: 'detect-cognitive-stage',
-			name: '检测认知阶段',
-			callback: async () => {
-				const file = this.app.workspace.getActiveFile();
-				if (file) {
-					const content = await this.app.vault.read(file);
-					const scores = {
-						complexity: this.dataManager.calculateComplexity(content),
-						engagement: this.dataManager.calculateEngagement(file.path),
-						centrality: await this.dataManager.calculateCentrality(file.path),
-						referenceCount: 0 // Assuming referenceCount is not available in the current implementation
-					};
-					const stage = this.dataManager.detectCognitiveStage(scores);
-					
-					new Notice(`当前认知阶段：${stage}\n` +
-						`复杂度: ${scores.complexity.toFixed(2)}\n` +
-						`交互深度: ${scores.engagement.toFixed(2)}\n` +
-						`中心度: ${scores.centrality.toFixed(2)}`);
+	private remapPath(key: string, oldPath: string, newPath: string): string | null {
+		if (key === oldPath) return newPath;
+		if (key.startsWith(oldPath + '/')) return newPath + key.slice(oldPath.length);
+		return null;
+	}
+
+	// 删除时把记录移入墓碑，宽限期内同路径重新出现可以恢复
+	markDeleted(path: string) {
+		const sections = this.pathRecords();
+		const deletedAt = Date.now();
+		const affected = new Set<string>();
+		for (const section of Object.keys(sections) as PathRecordSection[]) {
+			for (const key of Object.keys(sections[section])) {
+				if (key === path || key.startsWith(path + '/')) affected.add(key);
+			}
+		}
+
+		affected.forEach(key => {
+			const tombstone: Tombstone = { deletedAt, records: {} };
+			for (const section of Object.keys(sections) as PathRecordSection[]) {
+				if (key in sections[section]) {
+					tombstone.records[section] = sections[section][key];
+					delete sections[section][key];
 				}
 			}
+			this.tombstones[key] = tombstone;
 		});
+	}
 
-		// 更新状态栏跟踪
-		this.registerEvent(
-			this.app.workspace.on('editor-change', (editor) => {
-				const file = this.app.workspace.getActiveFile();
-				if (file) {
-					const content = editor.getValue();
-					this.dataManager.startInteractionTracking(file.path, content);
-				}
-			})
-		);
+	restoreFromTombstone(path: string): boolean {
+		const tombstone = this.tombstones[path];
+		if (!tombstone) return false;
+		delete this.tombstones[path];
+		if (this.isTombstoneExpired(tombstone, Date.now())) return false;
+
+		const sections = this.pathRecords();
+		for (const section of Object.keys(tombstone.records) as PathRecordSection[]) {
+			sections[section][path] = tombstone.records[section];
+		}
+		return true;
+	}
+
+	private isTombstoneExpired(tombstone: Tombstone, now: number): boolean {
+		return now - tombstone.deletedAt > this.plugin.settings.tombstoneGraceDays * 24 * 60 * 60 * 1000;
+	}
+
+	// 清理过期墓碑以及对应文件已不存在的记录
+	pruneOrphans(existingPaths: Set<string>): PruneReport {
+		const now = Date.now();
+		const report: PruneReport = { expiredTombstones: [], orphanedRecords: [] };
 
-		this.registerInterval(window.setInterval(() => {
-			const file = this.app.workspace.getActiveFile();
-			if (file) {
-				this.dataManager.recordInteractionDuration(file.path);
+		for (const path of Object.keys(this.tombstones)) {
+			if (this.isTombstoneExpired(this.tombstones[path], now)) {
+				delete this.tombstones[path];
+				report.expiredTombstones.push(path);
 			}
-		}, 5000)); // 每5秒记录一次交互时长
+		}
 
-		await this.activateReviewSystem();
+		const orphaned = new Set<string>();
+		const sections = this.pathRecords();
+		for (const section of Object.keys(sections) as PathRecordSection[]) {
+			for (const path of Object.keys(sections[section])) {
+				if (!existingPaths.has(path)) {
+					delete sections[section][path];
+					orphaned.add(path);
+				}
+			}
+		}
+		report.orphanedRecords = Array.from(orphaned).sort();
+
+		return report;
 	}
 
-	onunload() {
+	getWeightData(filePath: string) {
+		return this.data[filePath];
+	}
 
+	updateInteraction(filePath: string) {
+		if (!this.data[filePath]) {
+			this.data[filePath] = {
+				initialWeight: this.plugin.settings.initialWeight,
+				lastUpdated: Date.now(),
+				interactionCount: 0,
+				previousEngagement: 0
+			};
+		}
+		this.data[filePath].interactionCount++;
+		this.data[filePath].lastUpdated = Date.now();
+		this.touchHistory(filePath).interactions++;
 	}
 
-	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+	private get scoring(): ScoringEngine {
+		return new ScoringEngine(this.plugin.settings.scoring);
 	}
 
-	async saveSettings() {
-		await this.saveData(this.settings);
+	// 系数为0的项不需要计算中心度和记忆强度；explain 为 true 时总是计算，便于展示
+	explainWeight(filePath: string, explain = true, now = Date.now()): WeightBreakdown | null {
+		const data = this.data[filePath];
+		if (!data) return null;
+		const profile = this.plugin.settings.scoring;
+		const centrality = explain || profile.centralityBonus > 0 ? this.calculateCentrality(filePath) : 0;
+		const strength = explain || profile.memoryInfluence > 0 ? this.calculateMemoryStrength(filePath, now) : 1;
+		return this.scoring.weight(data, now, centrality, strength);
 	}
 
-	private updateStatusBar() {
-		const activeFile = this.app.workspace.getActiveFile();
-		if (activeFile) {
-			const weight = this.dataManager.calculateCurrentWeight(activeFile.path);
-			// 添加阶段显示
-			const content = this.app.workspace.activeEditor?.editor?.getValue() || '';
-			const complexity = this.dataManager.calculateComplexity(content);
-			this.statusBarItemEl.setText(`认知权重: ${weight} | 内容复杂度: ${(complexity * 100).toFixed(0)}%`);
+	calculateCurrentWeight(filePath: string, now = Date.now()): number {
+		const breakdown = this.explainWeight(filePath, false, now);
+		return breakdown ? Number(breakdown.total.toFixed(2)) : 0;
+	}
+
+	// 对每个错过的更新时刻依次衰减一天，结果与 Obsidian 何时打开、由哪台设备执行无关
+	async applyDailyDecay(slots: number[]) {
+		for (const slot of slots) {
+			for (const filePath in this.data) {
+				const record = this.data[filePath];
+				// 该时刻之后才创建或交互过的记录留到下一次更新
+				if (record.lastUpdated > slot) continue;
+				// 只把基础权重写回，中心度加成和记忆系数每次重新计算，避免逐日累加
+				record.initialWeight = Number(this.explainWeight(filePath, false, slot)!.base.toFixed(2));
+				record.interactionCount = 0;
+				record.lastUpdated = slot;
+				this.touchHistory(filePath, slot);
+			}
+		}
+		if (slots.length > 0) {
+			await this.updateAllStages();
+		}
+		await this.saveData();
+	}
+
+	// 每天重新评估一次所有已跟踪笔记的阶段，有变化时提示
+	private async updateAllStages() {
+		let changed = 0;
+		for (const filePath of Object.keys(this.data)) {
+			const file = this.plugin.app.vault.getAbstractFileByPath(filePath);
+			if (!(file instanceof TFile) || this.plugin.modificationClassifier.isIgnored(file)) continue;
+			const before = this.stages[filePath]?.stage;
+			const { stage } = await this.evaluateStage(file);
+			if (before && before !== stage) changed++;
+		}
+		if (changed > 0) {
+			new Notice(t('notice.stagesChanged', { count: changed }));
+		}
+	}
+
+	startInteractionTracking(filePath: string, content: string) {
+		if (!this.interactionDurations[filePath]) {
+			this.interactionDurations[filePath] = {
+				startTime: Date.now(),
+				contentLength: content.length,
+				durations: [],
+				linkCount: 0,
+				readingTime: 0,
+				editingTime: 0,
+				scrollDepth: 0
+			};
 		} else {
-			this.statusBarItemEl.setText('');
+			this.interactionDurations[filePath].contentLength = content.length;
 		}
 	}
 
-	async activateReviewSystem() {
-		this.addCommand({
-			id: 'start-review',
-			name: '开始记忆复习',
-			callback: async () => {
-				const dueFiles = this.getDueFiles();
-				// 添加数量限制
-				const maxQuestions = 5;
-				const selectedFiles = dueFiles.slice(0, maxQuestions); 
-				
-				if (selectedFiles.length === 0) {
-					new Notice('当前没有需要复习的文件');
-					return;
-				}
+	isInteractionTracked(filePath: string): boolean {
+		return !!this.interactionDurations[filePath];
+	}
 
-				// 添加进度提示
-				const progressNotice = new Notice(`准备生成 ${selectedFiles.length} 个问题...`, 3000);
+	// 有效时长累加到本次会话的时长中，避免每个计时周期都新增一条记录
+	recordActiveTime(filePath: string, mode: EngagementMode, duration: number) {
+		const tracking = this.interactionDurations[filePath];
+		if (!tracking) return;
+		if (tracking.durations.length === 0) tracking.durations.push(0);
+		tracking.durations[tracking.durations.length - 1] += duration;
+		if (mode === 'reading') {
+			tracking.readingTime += duration;
+		} else {
+			tracking.editingTime += duration;
+		}
+	}
+
+	recordScrollDepth(filePath: string, depth: number) {
+		const tracking = this.interactionDurations[filePath];
+		if (tracking) {
+			tracking.scrollDepth = Math.max(tracking.scrollDepth, depth);
+		}
+	}
+
+	recordLinkClick(filePath: string) {
+		const tracking = this.interactionDurations[filePath];
+		if (tracking) {
+			tracking.linkCount++;
+		}
+	}
+
+	getInteractionStats(filePath: string): InteractionDuration | undefined {
+		return this.interactionDurations[filePath];
+	}
+
+	// 复杂度由多语言可读性引擎计算，范围 0.1-1.0
+	calculateComplexity(content: string): number {
+		return analyzeReadability(content).score;
+	}
+
+	// persist 为 false 时只读取，不推进EMA
+	calculateEngagement(filePath: string, persist = true): number {
+		const tracking = this.interactionDurations[filePath];
+		if (!tracking) return 0;
+
+		const totalDuration = tracking.durations.reduce((a, b) => a + b, 0);
+		const engagementScore = (totalDuration * 0.6 + tracking.linkCount * 0.4) / (tracking.contentLength || 1);
+		
+		// 使用滑动窗口EMA
+		const alpha = 0.2; // EMA的平滑因子
+		const previousEMA = this.data[filePath]?.previousEngagement || engagementScore; // 获取上一次的EMA
+		const currentEMA = alpha * engagementScore + (1 - alpha) * previousEMA;
+
+		// 更新当前的EMA
+		if (persist && this.data[filePath]) {
+			this.data[filePath].previousEngagement = currentEMA;
+		}
+
+		return currentEMA;
+	}
+
+	calculateCentrality(filePath: string): number {
+		return this.plugin.linkGraph.getCentrality(filePath, this.plugin.settings.centralityMetric);
+	}
+
+	async evaluateStage(file: TFile, persist = true): Promise<{ stage: CognitiveStage; scores: CognitiveStageScores }> {
+		const content = await this.plugin.app.vault.cachedRead(file);
+		const scores = {
+			complexity: this.calculateComplexity(content),
+			engagement: this.calculateEngagement(file.path, persist),
+			centrality: this.calculateCentrality(file.path),
+			referenceCount: this.plugin.linkGraph.getInDegree(file.path)
+		};
+		// 已跟踪的笔记使用持久化的阶段，只有 persist 时才推进平滑值和阶段迁移
+		if (persist && this.data[file.path]) {
+			this.updateStage(file.path, scores);
+		}
+		const state = this.stages[file.path];
+		const stage = state ? state.stage : this.detectCognitiveStage(scores);
+		if (persist && this.data[file.path]) {
+			this.touchHistory(file.path).stage = stage;
+		}
+		return { stage, scores };
+	}
+
+	detectCognitiveStage(scores: CognitiveStageScores): CognitiveStage {
+		return this.scoring.detectStage(scores);
+	}
+
+	stageTransition(current: CognitiveStage, inputs: StageInputs): CognitiveStage {
+		return this.scoring.nextStage(current, inputs);
+	}
+
+	private updateStage(filePath: string, scores: CognitiveStageScores, now = Date.now()): NoteStageState {
+		const errorRate = this.recentErrorRate(filePath);
+		let state = this.stages[filePath];
+		if (!state) {
+			state = {
+				stage: this.detectCognitiveStage(scores),
+				enteredAt: now,
+				ema: { complexity: scores.complexity, engagement: scores.engagement, centrality: scores.centrality, errorRate },
+				emaDay: toDayKey(now),
+				transitions: []
+			};
+			this.stages[filePath] = state;
+			return state;
+		}
+
+		// 平滑和迟滞按天计算，与运行命令的次数无关
+		const today = toDayKey(now);
+		if (state.emaDay === today) return state;
+		state.emaDay = today;
+
+		const ema = state.ema;
+		ema.complexity = this.calculateEMA(scores.complexity, ema.complexity);
+		ema.engagement = this.calculateEMA(scores.engagement, ema.engagement);
+		ema.centrality = this.calculateEMA(scores.centrality, ema.centrality);
+		ema.errorRate = this.calculateEMA(errorRate, ema.errorRate);
+
+		const inputs: StageInputs = Object.assign({}, ema, { daysInStage: (now - state.enteredAt) / DAY_MS });
+		const next = this.stageTransition(state.stage, inputs);
+		if (next !== state.stage) {
+			const from = state.stage;
+			state.transitions.push({ from, to: next, at: now, inputs });
+			if (state.transitions.length > STAGE_TRANSITION_LIMIT) {
+				state.transitions.shift();
+			}
+			state.stage = next;
+			state.enteredAt = now;
+			this.plugin.api.trigger('stage-change', { path: filePath, from, to: next });
+		}
+		return state;
+	}
+
+	calculateEMA(value: number, previous: number, period = 5): number {
+		const alpha = 2 / (period + 1);
+		return alpha * value + (1 - alpha) * previous;
+	}
+
+	// 最近若干次复习中评为“重来”的比例，没有复习记录时为0
+	private recentErrorRate(filePath: string): number {
+		const recent = (this.memoryData[filePath]?.historicalSuccessRate || []).slice(-STAGE_ERROR_WINDOW);
+		if (recent.length === 0) return 0;
+		return recent.filter(result => result === 0).length / recent.length;
+	}
+
+	getStageState(filePath: string): NoteStageState | undefined {
+		return this.stages[filePath];
+	}
+
+	// 所有笔记的阶段迁移，按时间倒序
+	getRecentTransitions(limit: number, paths?: Set<string>): ({ path: string } & StageTransitionRecord)[] {
+		const transitions: ({ path: string } & StageTransitionRecord)[] = [];
+		for (const path of Object.keys(this.stages)) {
+			if (paths && !paths.has(path)) continue;
+			this.stages[path].transitions.forEach(transition => transitions.push(Object.assign({ path }, transition)));
+		}
+		return transitions.sort((a, b) => b.at - a.at).slice(0, limit);
+	}
+
+	// 记忆强度取调度器估算的当前回忆概率，未复习过的笔记视为1
+	calculateMemoryStrength(filePath: string, now = Date.now()): number {
+		const data = this.memoryData[filePath];
+		if (!data) return 1;
+		return createScheduler(this.plugin.settings).retrievability(data, now);
+	}
+
+	// 更新测试结果方法
+	updateTestResult(filePath: string, rating: ReviewRating, bloomLevel?: number, section?: string) {
+		const now = Date.now();
+		if(!this.memoryData[filePath]) {
+			this.memoryData[filePath] = createMemoryData(now);
+		}
+
+		const data = this.memoryData[filePath];
+		const isCorrect = rating !== ReviewRating.Again;
+		data.lastTestResult = isCorrect;
+		data.reps++;
+
+		if(isCorrect) {
+			data.consecutiveSuccess++;
+			data.consecutiveFailures = 0;
+		} else {
+			data.consecutiveFailures++;
+			data.consecutiveSuccess = 0;
+		}
+
+		// 维护滑动窗口（保留最近100次记录）
+		if(data.historicalSuccessRate.length >= 100) {
+			data.historicalSuccessRate.shift();
+		}
+		data.historicalSuccessRate.push(isCorrect ? 1 : 0);
+
+		if (bloomLevel !== undefined) {
+			data.bloomStats = data.bloomStats || {};
+			const stats = data.bloomStats[bloomLevel] || { correct: 0, total: 0 };
+			stats.total++;
+			if (isCorrect) stats.correct++;
+			data.bloomStats[bloomLevel] = stats;
+		}
+
+		if (section !== undefined) {
+			data.sectionStats = data.sectionStats || {};
+			const stats = data.sectionStats[section] || { correct: 0, total: 0, lastAsked: now };
+			stats.total++;
+			if (isCorrect) stats.correct++;
+			stats.lastAsked = now;
+			data.sectionStats[section] = stats;
+		}
+
+		createScheduler(this.plugin.settings).schedule(data, rating, now);
+		data.lastReviewTime = now;
+
+		const entry = this.touchHistory(filePath, now);
+		entry.reviews++;
+		if (!isCorrect) entry.lapses++;
+
+		this.plugin.api.trigger('review-complete', { path: filePath, rating, bloomLevel, due: data.due });
+	}
+
+	// 相对逾期程度：逾期天数与当前间隔之比，未到期为负
+	getOverdueness(filePath: string, now: number): number | null {
+		const data = this.memoryData[filePath];
+		if (!data || !data.lastReviewTime) return null;
+		return (now - data.due) / DAY_MS / Math.max(data.interval, 1);
+	}
+
+	// 汇总布鲁姆层级的答题统计，不传路径时统计全部笔记
+	getBloomStats(filePath?: string): Record<number, BloomLevelStats> {
+		const result: Record<number, BloomLevelStats> = {};
+		const paths = filePath ? [filePath] : Object.keys(this.memoryData);
+		for (const path of paths) {
+			const stats = this.memoryData[path]?.bloomStats || {};
+			for (const level of Object.keys(stats).map(Number)) {
+				const total = result[level] || { correct: 0, total: 0 };
+				total.correct += stats[level].correct;
+				total.total += stats[level].total;
+				result[level] = total;
+			}
+		}
+		return result;
+	}
+
+	getSectionStats(filePath: string): Record<string, SectionStats> {
+		return this.memoryData[filePath]?.sectionStats || {};
+	}
+
+	isTracked(filePath: string): boolean {
+		return !!this.data[filePath];
+	}
+
+	getLastReviewTime(filePath: string): number {
+		return this.memoryData[filePath]?.lastReviewTime || Date.now();
+	}
+
+	public getMemoryData(filePath: string) {
+		return this.memoryData[filePath];
+	}
+
+	getHistory(filePath: string): HistoryEntry[] {
+		return this.history[filePath] || [];
+	}
+
+	// 取 now 所在日期的历史记录（没有则按日期顺序插入），并刷新权重和记忆强度为该时刻的值
+	private touchHistory(filePath: string, now = Date.now()): HistoryEntry {
+		const history = this.history[filePath] || (this.history[filePath] = []);
+		const day = toDayKey(now);
+		// 补执行错过的每日更新时，日期可能早于已有的记录
+		let index = history.length;
+		while (index > 0 && history[index - 1].day > day) index--;
+		let entry = history[index - 1];
+		if (!entry || entry.day !== day) {
+			entry = { day, weight: 0, strength: 1, interactions: 0, reviews: 0, lapses: 0 };
+			history.splice(index, 0, entry);
+			// 超出保留天数的记录在新的一天开始时清理
+			const cutoff = toDayKey(Date.now() - this.plugin.settings.historyRetentionDays * DAY_MS);
+			while (history.length > 0 && history[0].day < cutoff) {
+				history.shift();
+			}
+		}
+		entry.weight = this.calculateCurrentWeight(filePath, now);
+		entry.strength = this.calculateMemoryStrength(filePath, now);
+		return entry;
+	}
+
+	getQuestionBankEntry(filePath: string): QuestionBankEntry | undefined {
+		return this.questionBank[filePath];
+	}
+
+	setQuestionBankEntry(filePath: string, entry: QuestionBankEntry) {
+		this.questionBank[filePath] = entry;
+	}
+
+	deleteQuestionBankEntry(filePath: string): boolean {
+		if (!this.questionBank[filePath]) return false;
+		delete this.questionBank[filePath];
+		return true;
+	}
+}
+
+// 每日更新时间，24 小时制 HH:MM
+const DAILY_TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+// 最多补执行这么多天的每日更新
+const MAX_CATCH_UP_DAYS = 365;
+// 每日更新写入的分区，其他设备已执行时从磁盘读取这些分区
+const DECAY_SECTIONS: DataSection[] = ['weights', 'history', 'stages', 'decay'];
+
+function isValidDailyTime(value: string): boolean {
+	return DAILY_TIME_PATTERN.test(value);
+}
+
+// 每台设备一个随机标识，保存在本机，不随 data.json 同步
+function getDeviceId(): string {
+	const key = 'mindforge-device-id';
+	let id = window.localStorage.getItem(key);
+	if (!id) {
+		id = Math.random().toString(36).slice(2, 10);
+		window.localStorage.setItem(key, id);
+	}
+	return id;
+}
+
+// 按固定的每日更新时刻执行衰减：启动时补上错过的时刻，每个时刻只执行一次
+class DecayScheduler {
+	private running: Promise<number> | null = null;
+
+	constructor(private plugin: MyPlugin) {}
+
+	register() {
+		this.plugin.app.workspace.onLayoutReady(() => this.runIfDue());
+		this.plugin.registerInterval(window.setInterval(() => this.runIfDue(), 60 * 1000));
+	}
+
+	// 不晚于 now 的最近一个每日更新时刻；设置无效时使用默认时间
+	latestSlot(now: number): number {
+		const setting = isValidDailyTime(this.plugin.settings.dailyUpdateTime)
+			? this.plugin.settings.dailyUpdateTime
+			: DEFAULT_SETTINGS.dailyUpdateTime;
+		const [hour, minute] = setting.split(':').map(Number);
+		const slot = new Date(now);
+		slot.setHours(hour, minute, 0, 0);
+		if (slot.getTime() > now) slot.setDate(slot.getDate() - 1);
+		return slot.getTime();
+	}
+
+	// 返回实际执行的天数
+	runIfDue(): Promise<number> {
+		if (!this.running) {
+			const clear = () => { this.running = null; };
+			this.running = this.run();
+			this.running.then(clear, clear);
+		}
+		return this.running;
+	}
+
+	private async run(): Promise<number> {
+		const { store, dataManager } = this.plugin;
+		const target = this.latestSlot(Date.now());
+		if (store.get('decay').lastSlot >= target) return 0;
+
+		// 其他设备已经执行并同步过来时，只采用每日更新涉及的分区，本设备尚未同步出去的设置和用量不受影响。
+		// 同步来的数据版本不同、无法读取时也不在本设备重复执行
+		const synced = await store.peek('decay');
+		if (synced && synced.lastSlot >= target && synced.deviceId !== getDeviceId()) {
+			if (await store.reload(DECAY_SECTIONS)) dataManager.reloadDecaySections();
+			return 0;
+		}
+
+		const lastSlot = store.get('decay').lastSlot;
+		const slots = lastSlot > 0 ? this.missedSlots(lastSlot, target) : [];
+		// 首次运行没有上次执行时间，只记录当前时刻，不补执行
+		await dataManager.applyDailyDecay(slots);
+		await store.save({ decay: { lastSlot: target, deviceId: getDeviceId() } });
+		return slots.length;
+	}
+
+	// lastSlot 之后直到 target 的每个更新时刻，按日期递增以正确处理夏令时
+	private missedSlots(lastSlot: number, target: number): number[] {
+		const slots: number[] = [];
+		const cursor = new Date(target);
+		while (cursor.getTime() > lastSlot && slots.length < MAX_CATCH_UP_DAYS) {
+			slots.unshift(cursor.getTime());
+			cursor.setDate(cursor.getDate() - 1);
+		}
+		return slots;
+	}
+}
+
+// 每隔这么久统计一次有效时长
+const ENGAGEMENT_TICK_MS = 5000;
+// 没有写入 frontmatter 等其他保存时，阅读数据按这个间隔保存
+const ENGAGEMENT_SAVE_INTERVAL_MS = 60 * 1000;
+
+// 只统计窗口可见、有焦点且最近有输入时的时长；预览模式和最近没有编辑的源码模式都算阅读
+class EngagementTracker {
+	private lastInput = Date.now();
+	private lastEdit = 0;
+	private lastTick = Date.now();
+	private lastSave = Date.now();
+	private focused = document.hasFocus();
+	private dirty = false;
+
+	constructor(private plugin: MyPlugin) {}
+
+	register() {
+		const { plugin } = this;
+		const onInput = () => {
+			this.lastInput = Date.now();
+		};
+		(['keydown', 'mousedown', 'mousemove', 'wheel', 'touchstart'] as (keyof DocumentEventMap)[]).forEach(type => {
+			plugin.registerDomEvent(document, type, onInput, { capture: true, passive: true });
+		});
+		// 滚动事件不冒泡，只能在捕获阶段监听
+		plugin.registerDomEvent(document, 'scroll', onInput, { capture: true, passive: true });
+		plugin.registerDomEvent(window, 'focus', () => {
+			this.focused = true;
+			onInput();
+		});
+		plugin.registerDomEvent(window, 'blur', () => {
+			this.focused = false;
+		});
+		plugin.registerDomEvent(document, 'click', (evt: MouseEvent) => this.handleClick(evt), { capture: true });
+
+		plugin.registerEvent(plugin.app.workspace.on('editor-change', (editor) => {
+			const file = plugin.app.workspace.getActiveFile();
+			if (file && !plugin.modificationClassifier.isIgnored(file)) {
+				this.lastEdit = Date.now();
+				plugin.dataManager.startInteractionTracking(file.path, editor.getValue());
+			}
+		}));
+		plugin.registerInterval(window.setInterval(() => this.tick(), ENGAGEMENT_TICK_MS));
+	}
+
+	private isActive(now: number): boolean {
+		return this.focused && document.visibilityState === 'visible' &&
+			now - this.lastInput < this.plugin.settings.idleTimeout * 1000;
+	}
+
+	private tick() {
+		const now = Date.now();
+		// 计时器被系统挂起后恢复时，最多计入一个周期
+		const elapsed = Math.min(now - this.lastTick, ENGAGEMENT_TICK_MS);
+		this.lastTick = now;
+
+		const view = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
+		if (view?.file && this.isActive(now) && !this.plugin.modificationClassifier.isIgnored(view.file)) {
+			const { dataManager } = this.plugin;
+			const path = view.file.path;
+			if (!dataManager.isInteractionTracked(path)) {
+				dataManager.startInteractionTracking(path, view.getViewData());
+			}
+			const editing = view.getMode() === 'source' && now - this.lastEdit < this.plugin.settings.idleTimeout * 1000;
+			dataManager.recordActiveTime(path, editing ? 'editing' : 'reading', elapsed);
+			const depth = this.scrollDepth(view);
+			if (depth !== null) dataManager.recordScrollDepth(path, depth);
+			this.dirty = true;
+		}
+
+		if (this.dirty && now - this.lastSave >= ENGAGEMENT_SAVE_INTERVAL_MS) {
+			this.dirty = false;
+			this.lastSave = now;
+			this.plugin.dataManager.saveData();
+		}
+	}
+
+	private scrollDepth(view: MarkdownView): number | null {
+		const selector = view.getMode() === 'preview' ? '.markdown-preview-view' : '.cm-scroller';
+		const scroller = view.contentEl.querySelector<HTMLElement>(selector);
+		if (!scroller || scroller.scrollHeight === 0) return null;
+		return Math.min(1, (scroller.scrollTop + scroller.clientHeight) / scroller.scrollHeight);
+	}
+
+	// 在捕获阶段处理，此时跳转尚未发生，当前笔记就是链接所在的笔记
+	private handleClick(evt: MouseEvent) {
+		const target = evt.target;
+		if (!(target instanceof HTMLElement)) return;
+		const link = target.closest('a.internal-link, a.external-link, .cm-hmd-internal-link, .cm-url');
+		if (!link || !link.closest('.workspace-leaf-content[data-type="markdown"]')) return;
+		const file = this.plugin.app.workspace.getActiveFile();
+		if (file) {
+			this.plugin.dataManager.recordLinkClick(file.path);
+			this.dirty = true;
+		}
+	}
+}
+
+// edit：编辑器中的编辑；external：同步、git 或其他程序的修改；bulk：短时间内大量文件被修改
+type ModificationKind = 'edit' | 'external' | 'bulk' | 'own' | 'ignored';
+
+// 编辑器输入后这段时间内的保存视为编辑器保存
+const EDIT_CORRELATION_MS = 10 * 1000;
+// 这段时间内修改的文件数达到阈值视为批量修改
+const BULK_WINDOW_MS = 3000;
+const BULK_FILE_THRESHOLD = 5;
+// 单次保存的大小变化超过这个字节数时，即使刚编辑过也视为外部覆盖
+const MAX_EDIT_SIZE_DELTA = 10000;
+
+class ModificationClassifier {
+	private lastEditorChange = new Map<string, number>();
+	private recentModifications: { path: string; time: number }[] = [];
+	private sizes = new Map<string, number>();
+
+	constructor(private plugin: MyPlugin) {}
+
+	register() {
+		this.plugin.registerEvent(this.plugin.app.workspace.on('editor-change', (editor, info) => {
+			const file = info.file || this.plugin.app.workspace.getActiveFile();
+			if (file) this.lastEditorChange.set(file.path, Date.now());
+		}));
+	}
+
+	// 新建的笔记没有编辑器输入，除批量创建外都算作用户操作
+	classify(file: TFile, created = false): ModificationKind {
+		const now = Date.now();
+		if (this.plugin.frontmatterSync.isOwnWrite(file.path)) return 'own';
+		if (this.isIgnored(file)) return 'ignored';
+
+		const previousSize = this.sizes.get(file.path);
+		this.sizes.set(file.path, file.stat.size);
+		this.recentModifications = this.recentModifications.filter(m => now - m.time < BULK_WINDOW_MS);
+		this.recentModifications.push({ path: file.path, time: now });
+		const bulk = new Set(this.recentModifications.map(m => m.path)).size >= BULK_FILE_THRESHOLD;
+		if (bulk) return 'bulk';
+		if (created) return 'edit';
+
+		const edited = now - (this.lastEditorChange.get(file.path) || 0) < EDIT_CORRELATION_MS;
+		if (!edited) return 'external';
+		if (previousSize !== undefined && Math.abs(file.stat.size - previousSize) > MAX_EDIT_SIZE_DELTA) return 'external';
+		return 'edit';
+	}
+
+	// 只统计 Markdown 笔记；标签匹配时包含子标签
+	isIgnored(file: TFile): boolean {
+		if (file.extension !== 'md') return true;
+		const { ignoredFolders, ignoredTags, ignoredPatterns } = this.plugin.settings;
+
+		if (ignoredFolders.some(folder => {
+			const prefix = folder.replace(/^\/+|\/+$/g, '');
+			return prefix !== '' && file.path.startsWith(prefix + '/');
+		})) return true;
+
+		if (ignoredPatterns.some(pattern => globToRegExp(pattern).test(file.path))) return true;
+
+		if (ignoredTags.length > 0) {
+			const cache = this.plugin.app.metadataCache.getFileCache(file);
+			const tags = cache ? (getAllTags(cache) || []).map(tag => tag.toLowerCase()) : [];
+			return ignoredTags.some(ignored => {
+				const name = '#' + ignored.replace(/^#/, '').toLowerCase();
+				return tags.some(tag => tag === name || tag.startsWith(name + '/'));
+			});
+		}
+		return false;
+	}
+}
+
+// 路径通配符：** 匹配任意层级，* 匹配单层中的任意字符，? 匹配单个字符
+function globToRegExp(glob: string): RegExp {
+	let source = '';
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === '*' && glob[i + 1] === '*') {
+			source += '.*';
+			i++;
+		} else if (char === '*') {
+			source += '[^/]*';
+		} else if (char === '?') {
+			source += '[^/]';
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
+
+// 写入 frontmatter 后这段时间内收到的 modify 事件视为插件自己的写入
+const OWN_WRITE_WINDOW_MS = 2000;
+// 批量同步时相邻两次写入的间隔，避免一次性触发大量文件修改
+const FRONTMATTER_WRITE_DELAY_MS = 200;
+
+class FrontmatterSync {
+	private ownWrites = new Map<string, number>();
+	private lastSync = 0;
+	private running = false;
+
+	constructor(private plugin: MyPlugin) {}
+
+	isOwnWrite(filePath: string): boolean {
+		const expiresAt = this.ownWrites.get(filePath);
+		if (expiresAt === undefined) return false;
+		if (expiresAt < Date.now()) {
+			this.ownWrites.delete(filePath);
+			return false;
+		}
+		return true;
+	}
+
+	async syncIfDue() {
+		const { frontmatterSync, frontmatterSyncInterval } = this.plugin.settings;
+		if (!frontmatterSync || frontmatterSyncInterval <= 0) return;
+		if (Date.now() - this.lastSync < frontmatterSyncInterval * 60 * 1000) return;
+		await this.syncAll();
+	}
+
+	// 逐个写入已跟踪的笔记，返回实际修改的笔记数
+	async syncAll(): Promise<number> {
+		if (this.running) return 0;
+		this.running = true;
+		let changed = 0;
+		try {
+			for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+				if (!this.plugin.dataManager.isTracked(file.path)) continue;
+				if (await this.syncFile(file)) {
+					changed++;
+					await new Promise(resolve => window.setTimeout(resolve, FRONTMATTER_WRITE_DELAY_MS));
+				}
+			}
+		} finally {
+			this.lastSync = Date.now();
+			this.running = false;
+		}
+		return changed;
+	}
+
+	// 值没有变化时不写入，避免无意义的文件修改
+	async syncFile(file: TFile): Promise<boolean> {
+		const values = await this.collectValues(file);
+		const current = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter || {};
+		const outdated = Object.keys(values).filter(key => current[key] !== values[key]);
+		if (outdated.length === 0) return false;
+
+		this.ownWrites.set(file.path, Date.now() + OWN_WRITE_WINDOW_MS);
+		await this.plugin.app.fileManager.processFrontMatter(file, (frontmatter) => {
+			outdated.forEach(key => frontmatter[key] = values[key]);
+		});
+		// 从实际写入完成时开始计算窗口
+		this.ownWrites.set(file.path, Date.now() + OWN_WRITE_WINDOW_MS);
+		return true;
+	}
+
+	// 属性名留空的字段不写入
+	private async collectValues(file: TFile): Promise<Record<string, string | number>> {
+		const { dataManager } = this.plugin;
+		const properties = this.plugin.settings.frontmatterProperties;
+		const values: Record<string, string | number> = {};
+		// 权重和记忆强度每天都在衰减，只保留一位小数，避免定时同步反复改写笔记
+		if (properties.weight) {
+			values[properties.weight] = Number(dataManager.calculateCurrentWeight(file.path).toFixed(1));
+		}
+		if (properties.stage) {
+			values[properties.stage] = (await dataManager.evaluateStage(file, false)).stage;
+		}
+		const memory = dataManager.getMemoryData(file.path);
+		if (properties.due && memory) {
+			values[properties.due] = toDayKey(memory.due);
+		}
+		if (properties.strength) {
+			values[properties.strength] = Number(dataManager.calculateMemoryStrength(file.path).toFixed(1));
+		}
+		return values;
+	}
+}
+
+// 公开 API 的版本号，接口有不兼容的变化时递增
+const API_VERSION = 1;
+
+interface NoteMetrics {
+	path: string;
+	weight: number;
+	stage: CognitiveStage;
+	complexity: number;
+	engagement: number;
+	centrality: number;
+	referenceCount: number;
+	memoryStrength: number;
+	// 从未复习过的笔记为 null
+	due: number | null;
+	lastReviewTime: number | null;
+}
+
+interface StageChangeEvent {
+	path: string;
+	from: CognitiveStage;
+	to: CognitiveStage;
+}
+
+interface ReviewCompleteEvent {
+	path: string;
+	rating: ReviewRating;
+	bloomLevel?: number;
+	due: number;
+}
+
+interface MindForgeEventMap {
+	'stage-change': StageChangeEvent;
+	'review-complete': ReviewCompleteEvent;
+}
+
+type MindForgeEventCallback<K extends keyof MindForgeEventMap> = (event: MindForgeEventMap[K]) => unknown;
+
+// 供其他插件和 Templater 脚本使用：app.plugins.plugins['obsidian-mindeforge'].api
+class MindForgeApi extends Events {
+	readonly version = API_VERSION;
+
+	constructor(private plugin: MyPlugin) {
+		super();
+	}
+
+	on<K extends keyof MindForgeEventMap>(name: K, callback: MindForgeEventCallback<K>, ctx?: unknown): EventRef {
+		return super.on(name, callback as (...data: unknown[]) => unknown, ctx);
+	}
+
+	trigger<K extends keyof MindForgeEventMap>(name: K, event: MindForgeEventMap[K]) {
+		super.trigger(name, event);
+	}
+
+	isTracked(path: string): boolean {
+		return this.plugin.dataManager.isTracked(path);
+	}
+
+	getWeight(path: string): number {
+		return this.plugin.dataManager.calculateCurrentWeight(path);
+	}
+
+	// 未跟踪或不存在的笔记返回 null；查询不会改变插件内部状态
+	async getMetrics(path: string): Promise<NoteMetrics | null> {
+		const { dataManager } = this.plugin;
+		const file = this.getFile(path);
+		if (!file || !dataManager.isTracked(path)) return null;
+		const { stage, scores } = await dataManager.evaluateStage(file, false);
+		const memory = dataManager.getMemoryData(path);
+		return {
+			path,
+			weight: dataManager.calculateCurrentWeight(path),
+			stage,
+			...scores,
+			memoryStrength: dataManager.calculateMemoryStrength(path),
+			due: memory?.due ?? null,
+			lastReviewTime: memory?.lastReviewTime ?? null
+		};
+	}
+
+	// 检测并记录认知阶段，阶段变化时触发 stage-change 事件
+	async detectStage(path: string): Promise<CognitiveStage | null> {
+		const file = this.getFile(path);
+		if (!file) return null;
+		const { stage } = await this.plugin.dataManager.evaluateStage(file);
+		await this.plugin.dataManager.saveData();
+		return stage;
+	}
+
+	// 与“开始记忆复习”命令的顺序一致：先逾期的，再未复习的
+	getDueNotes(limit?: number): string[] {
+		const paths = this.plugin.getDueFiles().map(file => file.path);
+		return limit === undefined ? paths : paths.slice(0, limit);
+	}
+
+	async recordInteraction(path: string) {
+		if (!this.getFile(path)) throw new Error(`Note not found: ${path}`);
+		this.plugin.dataManager.updateInteraction(path);
+		await this.plugin.dataManager.saveData();
+	}
+
+	// rating 取 1-4（重来 / 困难 / 良好 / 简单），完成后触发 review-complete 事件
+	async recordReview(path: string, rating: ReviewRating, bloomLevel?: number) {
+		if (!this.getFile(path)) throw new Error(`Note not found: ${path}`);
+		if (!(rating >= ReviewRating.Again && rating <= ReviewRating.Easy) || !Number.isInteger(rating)) {
+			throw new Error(`Invalid rating: ${rating}`);
+		}
+		this.plugin.dataManager.updateTestResult(path, rating, bloomLevel);
+		await this.plugin.dataManager.saveData();
+	}
+
+	private getFile(path: string): TFile | null {
+		const file = this.plugin.app.vault.getAbstractFileByPath(path);
+		return file instanceof TFile && file.extension === 'md' ? file : null;
+	}
+}
+
+export default class MyPlugin extends Plugin {
+	public store: DataStore;
+	public dataManager: DataManager;
+	public linkGraph: LinkGraph;
+	public frontmatterSync: FrontmatterSync;
+	public api: MindForgeApi;
+	public modificationClassifier: ModificationClassifier;
+	public generationQueue: GenerationQueue;
+	public usage: UsageTracker;
+	private questionGenerator: QuestionGenerator;
+	private questionBank: QuestionBank;
+	settings: MyPluginSettings;
+	private statusBarItemEl: HTMLElement;
+
+	async onload() {
+		await this.loadSettings();
+		setLocale(resolveLocale(this.settings.language));
+		this.dataManager = new DataManager(this);
+		this.generationQueue = new GenerationQueue(this);
+		this.usage = new UsageTracker(this);
+		this.questionGenerator = new QuestionGenerator(this);
+		this.questionBank = new QuestionBank(this, this.questionGenerator);
+		this.dataManager.loadData();
+		this.linkGraph = new LinkGraph(this);
+		this.linkGraph.register();
+		this.frontmatterSync = new FrontmatterSync(this);
+		this.modificationClassifier = new ModificationClassifier(this);
+		this.modificationClassifier.register();
+		this.api = new MindForgeApi(this);
+
+		// This creates an icon in the left ribbon.
+		const ribbonIconEl = this.addRibbonIcon('dice', 'Sample Plugin', (evt: MouseEvent) => {
+			// Called when the user clicks the icon.
+			new Notice('This is a notice!');
+		});
+		// Perform additional things with the ribbon
+		ribbonIconEl.addClass('my-plugin-ribbon-class');
+
+		// This adds a status bar item to the bottom of the app. Does not work on mobile apps.
+		this.statusBarItemEl = this.addStatusBarItem();
+		this.updateStatusBar();
+
+		// This adds a simple command that can be triggered anywhere
+		this.addCommand({
+			id: 'open-sample-modal-simple',
+			name: 'Open sample modal (simple)',
+			callback: () => {
+				new SampleModal(this.app).open();
+			}
+		});
+		// This adds an editor command that can perform some operation on the current editor instance
+		this.addCommand({
+			id: 'sample-editor-command',
+			name: 'Sample editor command',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				console.log(editor.getSelection());
+				editor.replaceSelection('Sample Editor Command');
+			}
+		});
+		// This adds a complex command that can check whether the current state of the app allows execution of the command
+		this.addCommand({
+			id: 'open-sample-modal-complex',
+			name: 'Open sample modal (complex)',
+			checkCallback: (checking: boolean) => {
+				// Conditions to check
+				const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (markdownView) {
+					// If checking is true, we're simply "checking" if the command can be run.
+					// If checking is false, then we want to actually perform the operation.
+					if (!checking) {
+						new SampleModal(this.app).open();
+					}
+
+					// This command will only show up in Command Palette when the check function returns true
+					return true;
+				}
+			}
+		});
+
+		// This adds a settings tab so the user can configure various aspects of the plugin
+		this.addSettingTab(new SampleSettingTab(this.app, this));
+
+		// If the plugin hooks up any global DOM events (on parts of the app that doesn't belong to this plugin)
+		// Using this function will automatically remove the event listener when this plugin is disabled.
+		this.registerDomEvent(document, 'click', (evt: MouseEvent) => {
+			console.log('click', evt);
+		});
+
+		// When registering intervals, this function will automatically clear the interval when the plugin is disabled.
+		this.registerInterval(window.setInterval(() => console.log('setInterval'), 5 * 60 * 1000));
+
+		// Register file events
+		// 启动索引时 Obsidian 会为每个已有文件触发 create，等布局就绪后再监听
+		this.app.workspace.onLayoutReady(() => {
+			this.registerEvent(
+				this.app.vault.on('create', (file) => {
+					if (file instanceof TFile) {
+						if (!this.dataManager.restoreFromTombstone(file.path) &&
+							this.modificationClassifier.classify(file, true) === 'edit') {
+							this.dataManager.updateInteraction(file.path);
+						}
+						this.dataManager.saveData();
+					}
+				})
+			);
+		});
+
+		this.registerEvent(
+			this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+				this.dataManager.renamePath(oldPath, file.path);
+				this.dataManager.saveData();
+			})
+		);
+
+		this.registerEvent(
+			this.app.vault.on('delete', (file: TAbstractFile) => {
+				this.dataManager.markDeleted(file.path);
+				this.dataManager.saveData();
+			})
+		);
+
+		this.addCommand({
+			id: 'prune-orphaned-records',
+			name: t('command.pruneRecords'),
+			callback: async () => {
+				const existingPaths = new Set(this.app.vault.getFiles().map(f => f.path));
+				const report = this.dataManager.pruneOrphans(existingPaths);
+				await this.dataManager.saveData();
+				new PruneReportModal(this.app, report).open();
+			}
+		});
+
+		this.registerEvent(
+			this.app.vault.on('modify', (file) => {
+				// 只有编辑器中的编辑计入交互，同步、批量修改和插件自己的写入都不算
+				if (file instanceof TFile && this.modificationClassifier.classify(file) === 'edit') {
+					this.dataManager.updateInteraction(file.path);
+					this.dataManager.saveData();
+				}
+			})
+		);
+
+		// Add daily update task
+		const decayScheduler = new DecayScheduler(this);
+		decayScheduler.register();
+
+		// Add update command
+		this.addCommand({
+			id: 'update-cognitive-weights',
+			name: t('command.updateWeights'),
+			callback: async () => {
+				const applied = await decayScheduler.runIfDue();
+				new Notice(applied > 0 ? t('notice.weightsUpdated', { days: applied }) : t('notice.weightsUpToDate'));
+			}
+		});
+
+		// Update status bar when active file changes
+		this.registerEvent(
+			this.app.workspace.on('active-leaf-change', () => {
+				this.updateStatusBar();
+			})
+		);
+
+		// 添加认知阶段检测命令
+		this.addCommand({
+			id: 'detect-cognitive-stage',
+			name: t('command.detectStage'),
+			callback: async () => {
+				const file = this.app.workspace.getActiveFile();
+				if (file) {
+					const before = this.dataManager.getStageState(file.path)?.stage;
+					const { stage, scores } = await this.dataManager.evaluateStage(file);
+					await this.dataManager.saveData();
+					
+					new Notice(t('notice.currentStage', { stage: stageName(stage) }) + '\n' +
+						(before && before !== stage ? t('notice.stageChanged', { from: stageName(before), to: stageName(stage) }) + '\n' : '') +
+						t('notice.stageScores', {
+							complexity: scores.complexity.toFixed(2),
+							engagement: scores.engagement.toFixed(2),
+							centrality: scores.centrality.toFixed(2)
+						}));
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'explain-note-score',
+			name: t('command.explainScore'),
+			checkCallback: (checking: boolean) => this.runOnActiveNote(checking, async (file) => {
+				new ScoreExplanationModal(this, file).open();
+			})
+		});
+
+		this.registerView(DASHBOARD_VIEW_TYPE, (leaf) => new DashboardView(leaf, this));
+		this.addCommand({
+			id: 'open-cognitive-dashboard',
+			name: t('command.openDashboard'),
+			callback: () => this.openDashboard()
+		});
+
+		this.addCommand({
+			id: 'sync-frontmatter',
+			name: t('command.syncFrontmatter'),
+			callback: async () => {
+				const notice = new Notice(t('notice.writingFrontmatter'), 0);
+				try {
+					const count = await this.frontmatterSync.syncAll();
+					new Notice(t('notice.frontmatterUpdatedCount', { count }));
+				} finally {
+					notice.hide();
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'sync-frontmatter-current',
+			name: t('command.syncFrontmatterCurrent'),
+			checkCallback: (checking: boolean) => this.runOnActiveNote(checking, async (file) => {
+				const changed = await this.frontmatterSync.syncFile(file);
+				new Notice(changed ? t('notice.frontmatterUpdated') : t('notice.frontmatterUpToDate'));
+			})
+		});
+
+		// 每分钟检查一次是否到了定时同步的时间
+		this.registerInterval(window.setInterval(() => this.frontmatterSync.syncIfDue(), 60 * 1000));
+
+		this.registerView(HISTORY_VIEW_TYPE, (leaf) => new HistoryView(leaf, this));
+		this.addCommand({
+			id: 'open-note-history',
+			name: t('command.openHistory'),
+			callback: () => this.openHistory()
+		});
+
+		new EngagementTracker(this).register();
+
+		await this.activateReviewSystem();
+	}
+
+	onunload() {
+		this.generationQueue.close();
+		this.dataManager.saveData();
+	}
+
+	async loadSettings() {
+		this.store = new DataStore(this);
+		await this.store.load();
+		const stored = this.store.get('settings');
+		this.settings = Object.assign(cloneDeep(DEFAULT_SETTINGS), stored);
+		// 服务商配置逐项合并，保证新增字段有默认值
+		for (const id of Object.keys(DEFAULT_SETTINGS.providers) as ProviderId[]) {
+			this.settings.providers[id] = Object.assign({}, DEFAULT_SETTINGS.providers[id], stored.providers?.[id]);
+		}
+		// 新增的评分字段取所选预设的值，自定义时取默认值
+		const preset = SCORING_PRESETS[this.settings.scoringPreset as ScoringPresetId] || DEFAULT_SETTINGS.scoring;
+		this.settings.scoring = Object.assign({}, preset, stored.scoring);
+		this.settings.frontmatterProperties = Object.assign({}, DEFAULT_SETTINGS.frontmatterProperties, stored.frontmatterProperties);
+	}
+
+	async saveSettings() {
+		await this.store.save({ settings: this.settings });
+	}
+
+	private updateStatusBar() {
+		const activeFile = this.app.workspace.getActiveFile();
+		if (activeFile) {
+			const weight = this.dataManager.calculateCurrentWeight(activeFile.path);
+			// 添加阶段显示
+			const content = this.app.workspace.activeEditor?.editor?.getValue() || '';
+			const complexity = this.dataManager.calculateComplexity(content);
+			this.statusBarItemEl.setText(t('status.bar', { weight, complexity: (complexity * 100).toFixed(0) }));
+		} else {
+			this.statusBarItemEl.setText('');
+		}
+	}
+
+	async activateReviewSystem() {
+		this.registerView(REVIEW_VIEW_TYPE, (leaf) => new ReviewView(leaf, this));
+
+		this.addCommand({
+			id: 'start-review',
+			name: t('command.startReview'),
+			callback: async () => {
+				const dueFiles = this.getDueFiles();
+				// 添加数量限制
+				const maxQuestions = 5;
+				const selectedFiles = dueFiles.slice(0, maxQuestions); 
+				
+				if (selectedFiles.length === 0) {
+					new Notice(t('notice.noDueFiles'));
+					return;
+				}
+
+				// 各笔记同时出题，实际并发由生成队列限制
+				let budgetError: BudgetExceededError | null = null;
+				const batch = new AbortController();
+				const progress = new GenerationProgress(selectedFiles.length, () => batch.abort());
+				try {
+					const questions = await Promise.all(
+						selectedFiles.map(f =>
+							this.questionBank.drawQuestion(f, batch.signal)
+							.catch(e => {
+								if (e instanceof BudgetExceededError) budgetError = e;
+								else if (!(e instanceof GenerationCancelledError)) console.error(`生成题目失败: ${f.path}`, e);
+								return null;
+							})
+							.then(question => {
+								progress.advance();
+								return question;
+							})
+						)
+					);
+
+					await this.dataManager.saveData();
+					const cancelled = batch.signal.aborted;
+					if (cancelled) new Notice(t('notice.generationCancelled'));
+					if (budgetError) new Notice(t('notice.budgetReached', { budget: formatCost(this.settings.monthlyBudget) }));
+					// 取消前已生成的题目照常复习
+					const validQuestions = questions.filter(q => q !== null) as Question[];
+					if (validQuestions.length > 0) {
+						await this.openReviewView(validQuestions);
+					} else if (!cancelled && !budgetError) {
+						new Notice(t('notice.noValidQuestions'));
+					}
+				} finally {
+					progress.hide();
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'regenerate-note-questions',
+			name: t('command.regenerateQuestions'),
+			checkCallback: (checking: boolean) => this.runOnActiveNote(checking, async (file) => {
+				const notice = new Notice(t('notice.regeneratingQuestions'), 0);
+				try {
+					const questions = await this.questionBank.regenerate(file);
+					await this.dataManager.saveData();
+					new Notice(t('notice.questionsGenerated', { count: questions.length }));
+				} catch (e) {
+					console.error(`生成题目失败: ${file.path}`, e);
+					new Notice(t('notice.generationFailed', { message: e.message }));
+				} finally {
+					notice.hide();
+				}
+			})
+		});
+
+		this.addCommand({
+			id: 'show-review-stats',
+			name: t('command.showReviewStats'),
+			callback: () => new ReviewStatsModal(this).open()
+		});
+
+		this.addCommand({
+			id: 'delete-note-questions',
+			name: t('command.deleteQuestions'),
+			checkCallback: (checking: boolean) => this.runOnActiveNote(checking, async (file) => {
+				const deleted = this.dataManager.deleteQuestionBankEntry(file.path);
+				await this.dataManager.saveData();
+				new Notice(deleted ? t('notice.questionsDeleted') : t('notice.noSavedQuestions'));
+			})
+		});
+
+		this.addCommand({
+			id: 'edit-note-questions',
+			name: t('command.editQuestions'),
+			checkCallback: (checking: boolean) => this.runOnActiveNote(checking, async (file) => {
+				new QuestionEditModal(this, this.questionBank, file).open();
+			})
+		});
+	}
+
+	private async openReviewView(questions: Question[]) {
+		let leaf = this.app.workspace.getLeavesOfType(REVIEW_VIEW_TYPE)[0];
+		if (!leaf) {
+			leaf = this.app.workspace.getLeaf('tab');
+			await leaf.setViewState({ type: REVIEW_VIEW_TYPE, active: true });
+		}
+		this.app.workspace.revealLeaf(leaf);
+		(leaf.view as ReviewView).startSession(questions);
+	}
+
+	private async openDashboard() {
+		let leaf = this.app.workspace.getLeavesOfType(DASHBOARD_VIEW_TYPE)[0];
+		if (leaf) {
+			await (leaf.view as DashboardView).refresh();
+		} else {
+			leaf = this.app.workspace.getLeaf('tab');
+			await leaf.setViewState({ type: DASHBOARD_VIEW_TYPE, active: true });
+		}
+		this.app.workspace.revealLeaf(leaf);
+	}
+
+	// 历史面板放在右侧边栏，跟随当前打开的笔记
+	private async openHistory() {
+		let leaf = this.app.workspace.getLeavesOfType(HISTORY_VIEW_TYPE)[0];
+		if (!leaf) {
+			leaf = this.app.workspace.getRightLeaf(false) || this.app.workspace.getLeaf('tab');
+			await leaf.setViewState({ type: HISTORY_VIEW_TYPE, active: true });
+		}
+		this.app.workspace.revealLeaf(leaf);
+	}
+
+	private runOnActiveNote(checking: boolean, action: (file: TFile) => Promise<void>): boolean {
+		const file = this.app.workspace.getActiveFile();
+		if (!file || file.extension !== 'md') return false;
+		if (!checking) {
+			action(file);
+		}
+		return true;
+	}
+
+	// 先返回已到期的笔记（按逾期程度降序），再返回从未复习过的笔记（按认知权重降序）
+	getDueFiles(): TFile[] {
+		const now = Date.now();
+		const overdue: { file: TFile; overdueness: number }[] = [];
+		const unreviewed: { file: TFile; weight: number }[] = [];
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const overdueness = this.dataManager.getOverdueness(file.path, now);
+			if (overdueness === null) {
+				if (this.dataManager.isTracked(file.path)) {
+					unreviewed.push({ file, weight: this.dataManager.calculateCurrentWeight(file.path) });
+				}
+			} else if (overdueness >= 0) {
+				overdue.push({ file, overdueness });
+			}
+		}
+
+		overdue.sort((a, b) => b.overdueness - a.overdueness);
+		unreviewed.sort((a, b) => b.weight - a.weight);
+		return [...overdue.map(item => item.file), ...unreviewed.map(item => item.file)];
+	}
+}
+
+class SampleModal extends Modal {
+	constructor(app: App) {
+		super(app);
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.setText('Woah!');
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
+
+class PruneReportModal extends Modal {
+	constructor(app: App, private report: PruneReport) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		const { expiredTombstones, orphanedRecords } = this.report;
+		contentEl.createEl('h2', { text: t('prune.title') });
+
+		if (expiredTombstones.length === 0 && orphanedRecords.length === 0) {
+			contentEl.createEl('p', { text: t('prune.nothing') });
+			return;
+		}
+
+		this.renderList(t('prune.orphaned'), orphanedRecords);
+		this.renderList(t('prune.tombstones'), expiredTombstones);
+	}
+
+	private renderList(title: string, paths: string[]) {
+		if (paths.length === 0) return;
+		this.contentEl.createEl('h3', { text: `${title} (${paths.length})` });
+		const list = this.contentEl.createEl('ul');
+		paths.forEach(path => list.createEl('li', { text: path }));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+// 逐项展示认知权重、阶段判定和复习安排的计算过程
+class ScoreExplanationModal extends Modal {
+	constructor(private plugin: MyPlugin, private file: TFile) {
+		super(plugin.app);
+	}
+
+	async onOpen() {
+		const { contentEl } = this;
+		contentEl.addClass('score-explanation');
+		contentEl.createEl('h2', { text: t('explain.title', { name: this.file.basename }) });
+
+		const { dataManager } = this.plugin;
+		const breakdown = dataManager.explainWeight(this.file.path);
+		if (!breakdown) {
+			contentEl.createEl('p', { text: t('explain.untracked') });
+			return;
+		}
+		this.renderWeight(breakdown);
+		await this.renderStage();
+		this.renderReview();
+	}
+
+	private renderWeight(b: WeightBreakdown) {
+		const p = this.plugin.settings.scoring;
+		const f = (n: number) => n.toFixed(3);
+		this.contentEl.createEl('h3', { text: t('explain.weight', { value: b.total.toFixed(2) }) });
+		this.renderTable([t('explain.term'), t('explain.formula'), t('explain.substitution'), t('explain.value')], [
+			[t('explain.timeDecay'), 'α·w₀·e^(−λ·√d)', t('explain.timeDecayValues', { alpha: p.alpha, lambda: f(b.lambda), days: b.days.toFixed(1) }), f(b.timeDecay)],
+			[t('explain.interactionBoost'), 'β·(1 − 1/(1 + log₂(N+1)))', `N=${b.interactions}${t('common.comma')}β=${f(b.beta)}`, f(b.interactionBoost)],
+			[t('explain.centralityBonus'), t('explain.centralityFormula'), t('explain.centralityValues', { bonus: p.centralityBonus, centrality: f(b.centrality) }), f(b.centralityBonus)],
+			[t('explain.memoryFactor'), t('explain.memoryFormula'), t('explain.memoryValues', { influence: p.memoryInfluence, strength: f(b.strength) }), f(b.memoryFactor)],
+			[t('explain.total'), t('explain.totalFormula'), '', f(b.total)]
+		]);
+		this.contentEl.createEl('p', {
+			text: t('explain.preset', { preset: this.presetName(), base: f(b.base) }),
+			cls: 'setting-item-description'
+		});
+	}
+
+	private async renderStage() {
+		const { dataManager } = this.plugin;
+		const p = this.plugin.settings.scoring;
+		const { stage, scores } = await dataManager.evaluateStage(this.file, false);
+		const state = dataManager.getStageState(this.file.path);
+
+		this.contentEl.createEl('h3', { text: t('explain.stage', { stage: stageName(stage) }) });
+		const ema = state?.ema;
+		const yes = (pass: boolean) => pass ? '✅' : '❌';
+		const checks = new ScoringEngine(p).stageChecks(scores);
+		this.renderTable([t('explain.condition'), t('explain.currentScore'), t('explain.smoothed'), t('explain.threshold'), t('explain.met')], [
+			[t('explain.expertComplexity'), scores.complexity.toFixed(2), ema ? ema.complexity.toFixed(2) : '-', `> ${p.expertComplexity}`, yes(checks.expertComplexity)],
+			[t('explain.expertCentrality'), scores.centrality.toFixed(2), ema ? ema.centrality.toFixed(2) : '-', `> ${p.expertCentrality}`, yes(checks.expertCentrality)],
+			[t('explain.advancedEngagement'), scores.engagement.toFixed(2), ema ? ema.engagement.toFixed(2) : '-', `> ${p.advancedEngagement}`, yes(checks.advancedEngagement)],
+			[t('explain.advancedCentrality'), scores.centrality.toFixed(2), ema ? ema.centrality.toFixed(2) : '-', `> ${p.advancedCentrality}`, yes(checks.advancedCentrality)]
+		]);
+		this.contentEl.createEl('p', {
+			text: t('explain.stageVerdict', { stage: stageName(dataManager.detectCognitiveStage(scores)) }),
+			cls: 'setting-item-description'
+		});
+		this.renderComplexity(analyzeReadability(await this.app.vault.cachedRead(this.file)));
+
+		if (!state) return;
+		const inputs: StageInputs = Object.assign({}, state.ema, { daysInStage: (Date.now() - state.enteredAt) / DAY_MS });
+		this.contentEl.createEl('p', {
+			text: t('explain.stageSince', {
+				date: new Date(state.enteredAt).toLocaleDateString(),
+				stage: stageName(state.stage),
+				days: inputs.daysInStage.toFixed(1),
+				errorRate: state.ema.errorRate.toFixed(2)
+			})
+		});
+		const rules = new ScoringEngine(p).transitionRules().filter(rule => rule.key.startsWith(state.stage + '→'));
+		this.renderTable([t('explain.transition'), t('explain.rule'), t('explain.met')], rules.map(rule => [transitionName(rule.key), rule.description, yes(rule.test(inputs))]));
+	}
+
+	private renderComplexity(report: ReadabilityReport) {
+		const languages = (Object.keys(report.languages) as ReadabilityLanguage[])
+			.map(language => t('explain.languageChars', { language: t(`language.${language}` as TranslationKey), count: report.languages[language]! }))
+			.join(t('common.comma')) || t('explain.noProse');
+		const { signals } = report;
+		this.contentEl.createEl('p', {
+			text: t('explain.complexity', {
+				score: report.score,
+				prose: report.prose.toFixed(2),
+				languages,
+				structure: report.structure.toFixed(2),
+				formulas: signals.formulas.toFixed(2),
+				code: signals.code.toFixed(2),
+				headings: signals.headingDepth.toFixed(2),
+				lists: signals.listNesting.toFixed(2)
+			}),
+			cls: 'setting-item-description'
+		});
+	}
+
+	private renderReview() {
+		const { dataManager, settings } = this.plugin;
+		const memory = dataManager.getMemoryData(this.file.path);
+		this.contentEl.createEl('h3', { text: t('explain.review') });
+		if (!memory || !memory.lastReviewTime) {
+			this.contentEl.createEl('p', { text: t('explain.neverReviewed') });
+			return;
+		}
+
+		const now = Date.now();
+		const overdueness = dataManager.getOverdueness(this.file.path, now) ?? 0;
+		const algorithm = settings.schedulerAlgorithm === 'fsrs' ? 'FSRS' : 'SM-2';
+		const rows = [
+			[t('explain.algorithm'), algorithm],
+			[t('explain.lastReview'), new Date(memory.lastReviewTime).toLocaleString()],
+			[t('explain.interval'), t('common.days', { days: memory.interval.toFixed(1) })],
+			[t('explain.due'), new Date(memory.due).toLocaleString()],
+			[t('metric.strength'), dataManager.calculateMemoryStrength(this.file.path).toFixed(2)],
+			settings.schedulerAlgorithm === 'fsrs'
+				? [t('explain.stabilityDifficulty'), `${memory.stability.toFixed(2)} / ${memory.difficulty.toFixed(2)}`]
+				: [t('explain.easeFactor'), memory.EF.toFixed(2)],
+			[t('explain.lapses'), memory.lapses.toString()]
+		];
+		this.renderTable([t('explain.term'), t('explain.value')], rows);
+		this.contentEl.createEl('p', {
+			text: overdueness >= 0
+				? t('explain.overdue', { percent: (overdueness * 100).toFixed(0) })
+				: t('explain.notDue')
+		});
+	}
+
+	private presetName(): string {
+		const preset = this.plugin.settings.scoringPreset;
+		return t(preset === 'custom' ? 'preset.custom' : SCORING_PRESET_NAMES[preset]);
+	}
+
+	private renderTable(headers: string[], rows: string[][]) {
+		const table = this.contentEl.createEl('table', { cls: 'score-explanation-table' });
+		const head = table.createEl('tr');
+		headers.forEach(text => head.createEl('th', { text }));
+		for (const row of rows) {
+			const tr = table.createEl('tr');
+			row.forEach(text => tr.createEl('td', { text }));
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+const SCORING_FIELDS: { key: keyof ScoringProfile; name: TranslationKey; desc: TranslationKey }[] = [
+	{ key: 'alpha', name: 'scoring.alpha', desc: 'scoring.alpha.desc' },
+	{ key: 'decayLambda', name: 'scoring.decayLambda', desc: 'scoring.decayLambda.desc' },
+	{ key: 'seasonalAmplitude', name: 'scoring.seasonalAmplitude', desc: 'scoring.seasonalAmplitude.desc' },
+	{ key: 'betaCoefficient', name: 'scoring.betaCoefficient', desc: 'scoring.betaCoefficient.desc' },
+	{ key: 'interactionSaturation', name: 'scoring.interactionSaturation', desc: 'scoring.interactionSaturation.desc' },
+	{ key: 'interactionMidpoint', name: 'scoring.interactionMidpoint', desc: 'scoring.interactionMidpoint.desc' },
+	{ key: 'interactionSpread', name: 'scoring.interactionSpread', desc: 'scoring.interactionSpread.desc' },
+	{ key: 'centralityBonus', name: 'scoring.centralityBonus', desc: 'scoring.centralityBonus.desc' },
+	{ key: 'memoryInfluence', name: 'scoring.memoryInfluence', desc: 'scoring.memoryInfluence.desc' },
+	{ key: 'expertComplexity', name: 'scoring.expertComplexity', desc: 'scoring.expertComplexity.desc' },
+	{ key: 'expertCentrality', name: 'scoring.expertCentrality', desc: 'scoring.expertCentrality.desc' },
+	{ key: 'advancedEngagement', name: 'scoring.advancedEngagement', desc: 'scoring.advancedEngagement.desc' },
+	{ key: 'advancedCentrality', name: 'scoring.advancedCentrality', desc: 'scoring.advancedCentrality.desc' },
+	{ key: 'stageMargin', name: 'scoring.stageMargin', desc: 'scoring.stageMargin.desc' },
+	{ key: 'advancedErrorRate', name: 'scoring.advancedErrorRate', desc: 'scoring.advancedErrorRate.desc' },
+	{ key: 'expertErrorRate', name: 'scoring.expertErrorRate', desc: 'scoring.expertErrorRate.desc' },
+	{ key: 'expertDemoteErrorRate', name: 'scoring.expertDemoteErrorRate', desc: 'scoring.expertDemoteErrorRate.desc' },
+	{ key: 'stageMinDaysUp', name: 'scoring.stageMinDaysUp', desc: 'scoring.stageMinDaysUp.desc' },
+	{ key: 'stageMinDaysDown', name: 'scoring.stageMinDaysDown', desc: 'scoring.stageMinDaysDown.desc' }
+];
+
+class SampleSettingTab extends PluginSettingTab {
+	plugin: MyPlugin;
+
+	constructor(app: App, plugin: MyPlugin) {
+		super(app, plugin);
+		this.plugin = plugin;
+	}
+
+	display(): void {
+		const {containerEl} = this;
+
+		containerEl.empty();
+
+		new Setting(containerEl)
+			.setName(t('settings.language'))
+			.setDesc(t('settings.language.desc'))
+			.addDropdown(dropdown => dropdown
+				.addOption('auto', t('common.auto'))
+				.addOption('en', 'English')
+				.addOption('zh-CN', '简体中文')
+				.setValue(this.plugin.settings.language)
+				.onChange(async (value) => {
+					this.plugin.settings.language = value as MyPluginSettings['language'];
+					setLocale(resolveLocale(this.plugin.settings.language));
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.questionLanguage'))
+			.setDesc(t('settings.questionLanguage.desc'))
+			.addDropdown(dropdown => {
+				dropdown.addOption('auto', t('common.auto'));
+				for (const language of Object.keys(QUESTION_LANGUAGE_NAMES) as QuestionLanguage[]) {
+					dropdown.addOption(language, QUESTION_LANGUAGE_NAMES[language]);
+				}
+				dropdown
+					.setValue(this.plugin.settings.questionLanguage)
+					.onChange(async (value) => {
+						this.plugin.settings.questionLanguage = value as MyPluginSettings['questionLanguage'];
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(t('settings.initialWeight'))
+			.addText(text => text
+				.setValue(this.plugin.settings.initialWeight.toString())
+				.onChange(async (value) => {
+					this.plugin.settings.initialWeight = Number(value);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.dailyUpdateTime'))
+			.setDesc(t('settings.dailyUpdateTime.desc'))
+			.addText(text => text
+				.setPlaceholder('02:00')
+				.setValue(this.plugin.settings.dailyUpdateTime)
+				.onChange(async (value) => {
+					const valid = isValidDailyTime(value.trim());
+					text.inputEl.toggleClass('is-invalid', !valid);
+					if (!valid) return;
+					this.plugin.settings.dailyUpdateTime = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.centralityMetric'))
+			.setDesc(t('settings.centralityMetric.desc'))
+			.addDropdown(dropdown => dropdown
+				.addOption('pagerank', 'PageRank')
+				.addOption('betweenness', t('settings.centrality.betweenness'))
+				.addOption('hub', t('settings.centrality.hub'))
+				.addOption('authority', t('settings.centrality.authority'))
+				.addOption('indegree', t('settings.centrality.indegree'))
+				.setValue(this.plugin.settings.centralityMetric)
+				.onChange(async (value) => {
+					this.plugin.settings.centralityMetric = value as CentralityMetric;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.tombstoneGraceDays'))
+			.setDesc(t('settings.tombstoneGraceDays.desc'))
+			.addText(text => text
+				.setValue(this.plugin.settings.tombstoneGraceDays.toString())
+				.onChange(async (value) => {
+					this.plugin.settings.tombstoneGraceDays = Number(value);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.historyRetention'))
+			.setDesc(t('settings.historyRetention.desc'))
+			.addText(text => text
+				.setValue(this.plugin.settings.historyRetentionDays.toString())
+				.onChange(async (value) => {
+					const days = Number(value);
+					if (Number.isInteger(days) && days > 0) {
+						this.plugin.settings.historyRetentionDays = days;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.ignoreList'))
+			.setDesc(t('settings.ignoreList.desc'))
+			.setHeading();
+
+		const ignoreLists: { key: 'ignoredFolders' | 'ignoredTags' | 'ignoredPatterns'; name: string; desc: string; placeholder: string }[] = [
+			{ key: 'ignoredFolders', name: t('settings.ignoredFolders'), desc: t('settings.ignoredFolders.desc'), placeholder: 'Templates\nDaily' },
+			{ key: 'ignoredTags', name: t('settings.ignoredTags'), desc: t('settings.ignoredTags.desc'), placeholder: '#template\n#daily' },
+			{ key: 'ignoredPatterns', name: t('settings.ignoredPatterns'), desc: t('settings.ignoredPatterns.desc'), placeholder: '**/*.excalidraw.md\nJournal/*-*-*.md' }
+		];
+		for (const list of ignoreLists) {
+			new Setting(containerEl)
+				.setName(list.name)
+				.setDesc(list.desc)
+				.addTextArea(text => text
+					.setPlaceholder(list.placeholder)
+					.setValue(this.plugin.settings[list.key].join('\n'))
+					.onChange(async (value) => {
+						this.plugin.settings[list.key] = value.split('\n').map(line => line.trim()).filter(line => line !== '');
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName(t('settings.idleTimeout'))
+			.setDesc(t('settings.idleTimeout.desc'))
+			.addText(text => text
+				.setValue(this.plugin.settings.idleTimeout.toString())
+				.onChange(async (value) => {
+					const seconds = Number(value);
+					if (Number.isFinite(seconds) && seconds > 0) {
+						this.plugin.settings.idleTimeout = seconds;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.provider'))
+			.setDesc(t('settings.provider.desc'))
+			.addDropdown(dropdown => {
+				for (const id of Object.keys(PROVIDER_NAMES) as ProviderId[]) {
+					dropdown.addOption(id, PROVIDER_NAMES[id]);
+				}
+				dropdown
+					.setValue(this.plugin.settings.provider)
+					.onChange(async (value) => {
+						this.plugin.settings.provider = value as ProviderId;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+
+		const providerConfig = this.plugin.settings.providers[this.plugin.settings.provider];
+
+		new Setting(containerEl)
+			.setName(t('settings.baseUrl'))
+			.addText(text => text
+				.setValue(providerConfig.baseUrl)
+				.onChange(async (value) => {
+					providerConfig.baseUrl = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.model'))
+			.addText(text => text
+				.setValue(providerConfig.model)
+				.onChange(async (value) => {
+					providerConfig.model = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.apiKey'))
+			.addText(text => text
+				.setValue(providerConfig.apiKey)
+				.onChange(async (value) => {
+					providerConfig.apiKey = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.authHeader'))
+			.setDesc(t('settings.authHeader.desc'))
+			.addText(text => text
+				.setValue(providerConfig.authHeader)
+				.onChange(async (value) => {
+					providerConfig.authHeader = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.jsonMode'))
+			.setDesc(t('settings.jsonMode.desc'))
+			.addToggle(toggle => toggle
+				.setValue(providerConfig.jsonMode)
+				.onChange(async (value) => {
+					providerConfig.jsonMode = value;
+					await this.plugin.saveSettings();
+				}));
+
+		for (const field of ['inputPrice', 'outputPrice'] as const) {
+			new Setting(containerEl)
+				.setName(t(`settings.${field}` as const))
+				.setDesc(t(`settings.${field}.desc` as const))
+				.addText(text => text
+					.setValue(providerConfig[field].toString())
+					.onChange(async (value) => {
+						const price = Number(value);
+						if (Number.isFinite(price) && price >= 0) {
+							providerConfig[field] = price;
+							await this.plugin.saveSettings();
+						}
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName(t('settings.temperature'))
+			.addSlider(slider => slider
+				.setLimits(0, 1, 0.1)
+				.setValue(this.plugin.settings.temperature)
+				.onChange(async (value) => {
+					this.plugin.settings.temperature = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.maxTokens'))
+			.addText(text => text
+				.setValue(this.plugin.settings.maxTokens.toString())
+				.onChange(async (value) => {
+					this.plugin.settings.maxTokens = Number(value);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.localFallback'))
+			.setDesc(t('settings.localFallback.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.localFallback)
+				.onChange(async (value) => {
+					this.plugin.settings.localFallback = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.questionsPerNote'))
+			.setDesc(t('settings.questionsPerNote.desc'))
+			.addText(text => text
+				.setValue(this.plugin.settings.questionsPerNote.toString())
+				.onChange(async (value) => {
+					this.plugin.settings.questionsPerNote = Number(value);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.concurrency'))
+			.setDesc(t('settings.concurrency.desc'))
+			.addSlider(slider => slider
+				.setLimits(1, 8, 1)
+				.setValue(this.plugin.settings.generationConcurrency)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.generationConcurrency = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.monthlyBudget'))
+			.setDesc(t('settings.monthlyBudget.desc'))
+			.addText(text => text
+				.setValue(this.plugin.settings.monthlyBudget.toString())
+				.onChange(async (value) => {
+					const budget = Number(value);
+					if (Number.isFinite(budget) && budget >= 0) {
+						this.plugin.settings.monthlyBudget = budget;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		const { providers } = this.plugin.usage.getUsage();
+		const usageDesc = document.createDocumentFragment();
+		for (const id of Object.keys(providers) as ProviderId[]) {
+			const usage = providers[id];
+			if (!usage) continue;
+			usageDesc.createDiv({ text: t('settings.usage.provider', {
+				provider: PROVIDER_NAMES[id],
+				requests: usage.requests,
+				input: usage.inputTokens.toLocaleString(),
+				output: usage.outputTokens.toLocaleString(),
+				cost: formatCost(usage.cost)
+			}) });
+		}
+		new Setting(containerEl)
+			.setName(t('settings.usage'))
+			.setDesc(usageDesc.childNodes.length > 0 ? usageDesc : t('settings.usage.empty'));
+
+		new Setting(containerEl)
+			.setName(t('settings.scheduler'))
+			.setDesc(t('settings.scheduler.desc'))
+			.addDropdown(dropdown => dropdown
+				.addOption('sm2', 'SM-2')
+				.addOption('fsrs', 'FSRS')
+				.setValue(this.plugin.settings.schedulerAlgorithm)
+				.onChange(async (value) => {
+					this.plugin.settings.schedulerAlgorithm = value as MyPluginSettings['schedulerAlgorithm'];
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.requestRetention'))
+			.setDesc(t('settings.requestRetention.desc'))
+			.addSlider(slider => slider
+				.setLimits(0.7, 0.97, 0.01)
+				.setValue(this.plugin.settings.requestRetention)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.requestRetention = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// 添加验证服务连接的按钮
+		new Setting(containerEl)
+			.setName(t('settings.validate'))
+			.addButton(button => {
+				button.setButtonText(t('settings.validate.button'))
+					.onClick(async () => {
+						const notice = new Notice(t('notice.validating'), 0); // 0表示持续显示的通知
+						const isValid = await this.validateProvider();
+						notice.hide(); // 隐藏通知
+						new Notice(isValid ? t('notice.serviceValid') : t('notice.serviceInvalid'));
+					});
+			});
+
+		this.displayScoring(containerEl);
+
+		new Setting(containerEl)
+			.setName(t('settings.frontmatterSync'))
+			.setDesc(t('settings.frontmatterSync.desc'))
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName(t('settings.scheduledSync'))
+			.setDesc(t('settings.scheduledSync.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.frontmatterSync)
+				.onChange(async (value) => {
+					this.plugin.settings.frontmatterSync = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.syncInterval'))
+			.setDesc(t('settings.syncInterval.desc'))
+			.addText(text => text
+				.setValue(this.plugin.settings.frontmatterSyncInterval.toString())
+				.onChange(async (value) => {
+					const minutes = Number(value);
+					if (Number.isFinite(minutes) && minutes >= 0) {
+						this.plugin.settings.frontmatterSyncInterval = minutes;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		const propertyNames: Record<FrontmatterField, string> = {
+			weight: t('settings.property.weight'),
+			stage: t('settings.property.stage'),
+			due: t('settings.property.due'),
+			strength: t('settings.property.strength')
+		};
+		for (const field of Object.keys(propertyNames) as FrontmatterField[]) {
+			new Setting(containerEl)
+				.setName(propertyNames[field])
+				.setDesc(t('settings.property.desc'))
+				.addText(text => text
+					.setPlaceholder(DEFAULT_SETTINGS.frontmatterProperties[field])
+					.setValue(this.plugin.settings.frontmatterProperties[field])
+					.onChange(async (value) => {
+						this.plugin.settings.frontmatterProperties[field] = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName(t('settings.questionTypes'))
+			.setDesc(t('settings.questionTypes.desc'))
+			.setHeading();
+
+		for (const type of Object.keys(QUESTION_TYPE_NAMES) as QuestionType[]) {
+			new Setting(containerEl)
+				.setName(t(QUESTION_TYPE_NAMES[type]))
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.questionTypes.includes(type))
+					.onChange(async (value) => {
+						const types = this.plugin.settings.questionTypes.filter(t => t !== type);
+						this.plugin.settings.questionTypes = value ? [...types, type] : types;
+						await this.plugin.saveSettings();
+					}));
+		}
+	}
+
+	private displayScoring(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName(t('settings.scoring'))
+			.setDesc(t('settings.scoring.desc'))
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName(t('settings.scoringPreset'))
+			.setDesc(t('settings.scoringPreset.desc'))
+			.addDropdown(dropdown => {
+				for (const id of Object.keys(SCORING_PRESETS) as ScoringPresetId[]) {
+					dropdown.addOption(id, t(SCORING_PRESET_NAMES[id]));
+				}
+				dropdown.addOption('custom', t('preset.custom'));
+				dropdown.setValue(this.plugin.settings.scoringPreset);
+				dropdown.onChange(async (value) => {
+					if (value === 'custom') return;
+					this.plugin.settings.scoringPreset = value as ScoringPresetId;
+					this.plugin.settings.scoring = Object.assign({}, SCORING_PRESETS[value as ScoringPresetId]);
+					await this.plugin.saveSettings();
+					this.display();
+				});
+			});
+
+		for (const field of SCORING_FIELDS) {
+			new Setting(containerEl)
+				.setName(t(field.name))
+				.setDesc(t(field.desc))
+				.addText(text => text
+					.setValue(this.plugin.settings.scoring[field.key].toString())
+					.onChange(async (value) => {
+						const number = Number(value);
+						if (value.trim() === '' || !Number.isFinite(number)) return;
+						this.plugin.settings.scoring[field.key] = number;
+						this.plugin.settings.scoringPreset = 'custom';
+						await this.plugin.saveSettings();
+					}));
+		}
+	}
+
+	// 验证逻辑由各服务商实现
+	private async validateProvider(): Promise<boolean> {
+		try {
+			await createProvider(this.plugin.settings).validate();
+			return true;
+		} catch (error) {
+			console.error('验证失败:', error);
+			new Notice(t('notice.validationFailed', { message: error.message }));
+			return false;
+		}
+	}
+}
+
+const PROVIDER_NAMES: Record<ProviderId, string> = {
+	'deepseek': 'DeepSeek',
+	'openai-compatible': 'OpenAI-compatible',
+	'ollama': 'Ollama'
+};
+
+interface ChatMessage {
+	role: 'system' | 'user' | 'assistant';
+	content: string;
+}
+
+interface ChatRequest {
+	messages: ChatMessage[];
+	temperature: number;
+	maxTokens: number;
+	// 要求返回JSON对象，服务商不支持时仅依赖提示词约束
+	jsonMode?: boolean;
+	// 取消出题时中止请求
+	signal?: AbortSignal;
+}
+
+interface ChatResponse {
+	content: string;
+	// 服务商返回的 token 用量，缺失时由调用方估算
+	usage?: TokenUsage;
+}
+
+interface TokenUsage {
+	inputTokens: number;
+	outputTokens: number;
+}
+
+interface LLMProvider {
+	readonly id: ProviderId;
+	isConfigured(): boolean;
+	chat(request: ChatRequest): Promise<ChatResponse>;
+	// 验证失败时抛出带说明的错误
+	validate(): Promise<void>;
+}
+
+class ProviderError extends Error {
+	// retryAfter 为服务商 Retry-After 头给出的等待秒数
+	constructor(message: string, public status?: number, public retryAfter?: number) {
+		super(message);
+		this.name = 'ProviderError';
+	}
+}
+
+// 用户取消或达到预算时抛出，不再改用本地出题
+class GenerationCancelledError extends Error {
+	constructor() {
+		super(t('error.cancelled'));
+		this.name = 'GenerationCancelledError';
+	}
+}
+
+class BudgetExceededError extends Error {
+	constructor(public cost: number, public budget: number) {
+		super(t('error.budgetExceeded', { cost: formatCost(cost), budget: formatCost(budget) }));
+		this.name = 'BudgetExceededError';
+	}
+}
+
+// 模型输出修复后仍无法解析为题目时抛出，出题时据此重新请求
+class QuestionParseError extends Error {
+	constructor(message: string) {
+		super(t('error.parseFailed', { message }));
+		this.name = 'QuestionParseError';
+	}
+}
+
+// 取消和超出预算时立即结束本次出题，不重试、不修复、不回退
+function isGenerationStopped(error: unknown): boolean {
+	return error instanceof GenerationCancelledError || error instanceof BudgetExceededError;
+}
+
+function createProvider(settings: MyPluginSettings): LLMProvider {
+	const config = settings.providers[settings.provider];
+	switch (settings.provider) {
+		case 'ollama':
+			return new OllamaProvider(config);
+		case 'openai-compatible':
+			return new OpenAICompatibleProvider('openai-compatible', config);
+		default:
+			return new DeepSeekProvider(config);
+	}
+}
+
+abstract class BaseProvider implements LLMProvider {
+	abstract readonly id: ProviderId;
+
+	constructor(protected config: ProviderConfig) {}
+
+	abstract chat(request: ChatRequest): Promise<ChatResponse>;
+	abstract validate(): Promise<void>;
+
+	isConfigured(): boolean {
+		return !!this.config.baseUrl && !!this.config.model;
+	}
+
+	protected endpoint(path: string): string {
+		return this.config.baseUrl.replace(/\/+$/, '') + path;
+	}
+
+	protected headers(): Record<string, string> {
+		const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+		const { authHeader, apiKey } = this.config;
+		if (authHeader && apiKey) {
+			headers[authHeader] = authHeader.toLowerCase() === 'authorization' ? `Bearer ${apiKey}` : apiKey;
+		}
+		return headers;
+	}
+
+	protected async request(path: string, init: RequestInit, timeout = 60000, signal?: AbortSignal): Promise<any> {
+		const controller = new AbortController();
+		const timeoutId = setTimeout(() => controller.abort(), timeout);
+		const abort = () => controller.abort();
+		if (signal?.aborted) abort();
+		signal?.addEventListener('abort', abort);
+		try {
+			const response = await fetch(this.endpoint(path), Object.assign({ headers: this.headers(), signal: controller.signal }, init));
+			const rawResponse = await response.text();
+			if (!response.ok) {
+				console.error("API请求失败:", response.status, rawResponse);
+				const retryAfter = Number(response.headers.get('retry-after'));
+				throw new ProviderError(t('error.apiRequest', { status: response.status, statusText: response.statusText }), response.status,
+					retryAfter > 0 ? retryAfter : undefined);
+			}
+			try {
+				return JSON.parse(rawResponse);
+			} catch (parseError) {
+				console.error("JSON解析失败:", rawResponse);
+				throw new ProviderError(t('error.invalidJson'));
+			}
+		} finally {
+			clearTimeout(timeoutId);
+			signal?.removeEventListener('abort', abort);
+		}
+	}
+
+	protected requireConfig() {
+		if (!this.config.baseUrl) throw new ProviderError(t('error.noBaseUrl'));
+		if (!this.config.model) throw new ProviderError(t('error.noModel'));
+	}
+}
+
+// 兼容 OpenAI /chat/completions 接口的服务
+class OpenAICompatibleProvider extends BaseProvider {
+	constructor(readonly id: ProviderId, config: ProviderConfig) {
+		super(config);
+	}
+
+	async chat(request: ChatRequest): Promise<ChatResponse> {
+		const body: Record<string, unknown> = {
+			model: this.config.model,
+			messages: request.messages,
+			temperature: request.temperature,
+			max_tokens: request.maxTokens,
+			top_p: 0.95
+		};
+		if (request.jsonMode && this.config.jsonMode) {
+			body.response_format = { type: 'json_object' };
+		}
+		const data = await this.request('/chat/completions', {
+			method: 'POST',
+			body: JSON.stringify(body)
+		}, undefined, request.signal);
+		const content = data.choices?.[0]?.message?.content;
+		if (!content) {
+			throw new ProviderError(t('error.emptyResponse'));
+		}
+		const usage = data.usage;
+		return {
+			content,
+			usage: usage ? { inputTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0 } : undefined
+		};
+	}
+
+	async validate(): Promise<void> {
+		this.requireConfig();
+		await this.chat({
+			messages: [{ role: 'user', content: '你好' }],
+			temperature: 0.1,
+			maxTokens: 5
+		});
+	}
+}
+
+class DeepSeekProvider extends OpenAICompatibleProvider {
+	constructor(config: ProviderConfig) {
+		super('deepseek', config);
+	}
+
+	isConfigured(): boolean {
+		return super.isConfigured() && !!this.config.apiKey;
+	}
+
+	async validate(): Promise<void> {
+		if (!this.config.apiKey) {
+			throw new ProviderError(t('error.noApiKey'));
+		}
+		if (!this.config.apiKey.startsWith('sk-')) {
+			throw new ProviderError(t('error.apiKeyFormat'));
+		}
+		await super.validate();
+	}
+}
+
+// Ollama 原生接口，本地部署通常无需认证
+class OllamaProvider extends BaseProvider {
+	readonly id: ProviderId = 'ollama';
+
+	async chat(request: ChatRequest): Promise<ChatResponse> {
+		const data = await this.request('/api/chat', {
+			method: 'POST',
+			body: JSON.stringify({
+				model: this.config.model,
+				messages: request.messages,
+				stream: false,
+				format: request.jsonMode && this.config.jsonMode ? 'json' : undefined,
+				options: {
+					temperature: request.temperature,
+					num_predict: request.maxTokens,
+					top_p: 0.95
+				}
+			})
+		}, 120000, request.signal);
+		const content = data.message?.content;
+		if (!content) {
+			throw new ProviderError(t('error.emptyResponse'));
+		}
+		// Ollama 以 prompt_eval_count / eval_count 报告 token 数
+		const reported = typeof data.prompt_eval_count === 'number' || typeof data.eval_count === 'number';
+		return {
+			content,
+			usage: reported ? { inputTokens: data.prompt_eval_count || 0, outputTokens: data.eval_count || 0 } : undefined
+		};
+	}
+
+	async validate(): Promise<void> {
+		this.requireConfig();
+		const data = await this.request('/api/tags', { method: 'GET' }, 10000);
+		const models: string[] = (data.models || []).map((m: { name: string }) => m.name);
+		const wanted = this.config.model;
+		if (!models.some(name => name === wanted || name === `${wanted}:latest`)) {
+			throw new ProviderError(t('error.ollamaModel', { model: wanted }));
+		}
+	}
+}
+
+// 被限流或服务端出错时的最大重试次数与退避上限
+const MAX_GENERATION_RETRIES = 4;
+const MAX_BACKOFF_MS = 30000;
+
+// 所有出题请求经由此队列：限制并发数，对 429 和 5xx 指数退避重试。
+// 取消以批次为单位：调用方传入批次的 signal，中止后该批次进行中和排队的请求都不再发出
+class GenerationQueue {
+	private active = 0;
+	private waiting: (() => void)[] = [];
+	// 插件卸载时中止全部请求
+	private shutdown = new AbortController();
+
+	constructor(private plugin: MyPlugin) {}
+
+	async run<T>(task: (signal: AbortSignal) => Promise<T>, batch?: AbortSignal): Promise<T> {
+		const controller = new AbortController();
+		const abort = () => controller.abort();
+		const sources = [this.shutdown.signal, batch].filter((source): source is AbortSignal => !!source);
+		sources.forEach(source => source.aborted ? abort() : source.addEventListener('abort', abort));
+		const signal = controller.signal;
+		await this.acquire();
+		try {
+			for (let attempt = 0; ; attempt++) {
+				if (signal.aborted) throw new GenerationCancelledError();
+				try {
+					return await task(signal);
+				} catch (error) {
+					if (signal.aborted) throw new GenerationCancelledError();
+					if (!this.isRetryable(error) || attempt >= MAX_GENERATION_RETRIES) throw error;
+					await this.sleep(this.backoff(error, attempt), signal);
+				}
+			}
+		} finally {
+			this.release();
+			sources.forEach(source => source.removeEventListener('abort', abort));
+		}
+	}
+
+	close() {
+		this.shutdown.abort();
+	}
+
+	private acquire(): Promise<void> {
+		if (this.active < Math.max(1, this.plugin.settings.generationConcurrency)) {
+			this.active++;
+			return Promise.resolve();
+		}
+		return new Promise(resolve => this.waiting.push(resolve));
+	}
+
+	// 空出的名额直接交给下一个排队的请求
+	private release() {
+		const next = this.waiting.shift();
+		if (next) next();
+		else this.active--;
+	}
+
+	private isRetryable(error: unknown): boolean {
+		return error instanceof ProviderError && error.status !== undefined && (error.status === 429 || error.status >= 500);
+	}
+
+	// 1s、2s、4s……加随机抖动，服务商给出 Retry-After 时以其为下限
+	private backoff(error: ProviderError, attempt: number): number {
+		const delay = Math.min(MAX_BACKOFF_MS, 1000 * Math.pow(2, attempt)) * (0.75 + Math.random() * 0.5);
+		return Math.max(delay, (error.retryAfter || 0) * 1000);
+	}
+
+	private sleep(ms: number, signal: AbortSignal): Promise<void> {
+		return new Promise((resolve, reject) => {
+			const onAbort = () => {
+				clearTimeout(timer);
+				reject(new GenerationCancelledError());
+			};
+			const timer = setTimeout(() => {
+				signal.removeEventListener('abort', onAbort);
+				resolve();
+			}, ms);
+			signal.addEventListener('abort', onAbort);
+		});
+	}
+}
+
+// 中日韩文字约一字一个 token，其他文字约四个字符一个 token
+function estimateTokens(text: string): number {
+	const cjk = (text.match(/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g) || []).length;
+	return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+function formatCost(cost: number): string {
+	return cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2);
+}
+
+// 按月统计各服务商的 token 用量和估算费用，并据此执行每月预算
+// 用量保存在内存中并同步更新，并发请求不会基于过期的值累加，之后再写入 data.json
+class UsageTracker {
+	private state: UsageState;
+
+	constructor(private plugin: MyPlugin) {
+		this.state = plugin.store.get('usage');
+	}
+
+	getUsage(): UsageState {
+		const month = moment().format('YYYY-MM');
+		if (this.state.month !== month) this.state = { month, providers: {} };
+		return this.state;
+	}
+
+	monthlyCost(): number {
+		const providers = this.getUsage().providers;
+		return (Object.keys(providers) as ProviderId[]).reduce((sum, id) => sum + (providers[id]?.cost || 0), 0);
+	}
+
+	assertWithinBudget() {
+		const budget = this.plugin.settings.monthlyBudget;
+		const cost = this.monthlyCost();
+		if (budget > 0 && cost >= budget) throw new BudgetExceededError(cost, budget);
+	}
+
+	record(providerId: ProviderId, usage: TokenUsage): Promise<void> {
+		const { inputPrice, outputPrice } = this.plugin.settings.providers[providerId];
+		const state = this.getUsage();
+		const entry = state.providers[providerId] || { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+		entry.requests++;
+		entry.inputTokens += usage.inputTokens;
+		entry.outputTokens += usage.outputTokens;
+		entry.cost += (usage.inputTokens * inputPrice + usage.outputTokens * outputPrice) / 1e6;
+		state.providers[providerId] = entry;
+		return this.plugin.store.save({ usage: state });
+	}
+}
+
+// 批量出题的进度通知，附带取消按钮
+class GenerationProgress {
+	private notice = new Notice('', 0);
+	private textEl: HTMLElement;
+	private done = 0;
+
+	constructor(private total: number, onCancel: () => void) {
+		const el = this.notice.noticeEl;
+		el.empty();
+		this.textEl = el.createDiv();
+		const button = el.createEl('button', { text: t('common.cancel') });
+		button.onclick = (evt) => {
+			// 点击通知本身会将其关闭，这里只取消生成
+			evt.stopPropagation();
+			button.disabled = true;
+			onCancel();
+		};
+		this.render();
+	}
+
+	advance() {
+		this.done++;
+		this.render();
+	}
+
+	hide() {
+		this.notice.hide();
+	}
+
+	private render() {
+		this.textEl.setText(t('notice.generationProgress', { done: this.done, total: this.total }));
+	}
+}
+
+type QuestionType = 'single' | 'multi' | 'truefalse' | 'cloze' | 'recall';
+
+const QUESTION_TYPE_NAMES: Record<QuestionType, TranslationKey> = {
+	single: 'questionType.single',
+	multi: 'questionType.multi',
+	truefalse: 'questionType.truefalse',
+	cloze: 'questionType.cloze',
+	recall: 'questionType.recall'
+};
+
+interface BaseQuestion {
+	type: QuestionType;
+	question: string;
+	bloomLevel: number;
+	filePath: string;
+	explanation?: string;
+	// 笔记中支撑答案的原文摘录
+	sourceExcerpt?: string;
+	// 出题所用章节的标题或块 ID，复习时据此跳转
+	heading?: string;
+	blockId?: string;
+	// 章节统计的键，同一标题下的多个分块各不相同
+	section?: string;
+	// 本地规则生成的题目，LLM 可用后重新生成
+	local?: boolean;
+}
+
+interface SingleChoiceQuestion extends BaseQuestion {
+	type: 'single';
+	options: string[];
+	correctIndex: number;
+}
+
+interface MultiSelectQuestion extends BaseQuestion {
+	type: 'multi';
+	options: string[];
+	correctIndices: number[];
+}
+
+interface TrueFalseQuestion extends BaseQuestion {
+	type: 'truefalse';
+	answer: boolean;
+}
+
+// question 中用 ____ 标记空位，answers 与空位一一对应
+interface ClozeQuestion extends BaseQuestion {
+	type: 'cloze';
+	answers: string[];
+}
+
+// 自由回忆题没有标准判分，作答后由用户自评
+interface RecallQuestion extends BaseQuestion {
+	type: 'recall';
+	answer: string;
+}
+
+type Question = SingleChoiceQuestion | MultiSelectQuestion | TrueFalseQuestion | ClozeQuestion | RecallQuestion;
+
+const BLOOM_LEVEL_NAMES: Record<number, TranslationKey> = {
+	1: 'bloom.remember',
+	2: 'bloom.understand',
+	3: 'bloom.apply',
+	4: 'bloom.analyze',
+	5: 'bloom.evaluate',
+	6: 'bloom.create'
+};
+
+const BLOOM_LEVEL_DESCRIPTIONS: Record<number, TranslationKey> = {
+	1: 'bloom.remember.desc',
+	2: 'bloom.understand.desc',
+	3: 'bloom.apply.desc',
+	4: 'bloom.analyze.desc',
+	5: 'bloom.evaluate.desc',
+	6: 'bloom.create.desc'
+};
+
+// 各认知阶段对应的起始层级
+const STAGE_BLOOM_BASE: Record<CognitiveStage, number> = {
+	'新手': 1,
+	'进阶': 3,
+	'专家': 5
+};
+
+type QuestionOf<T extends QuestionType> = Extract<Question, { type: T }>;
+
+const CLOZE_BLANK = '____';
+
+// 只接受自身属性，避免 toString 等原型属性被当成题型
+function isQuestionType(value: unknown): value is QuestionType {
+	return typeof value === 'string' && Object.prototype.hasOwnProperty.call(QUESTION_TYPE_NAMES, value);
+}
+
+// 校验题目结构，不合法时抛出带原因的错误
+function validateQuestion(raw: any, filePath: string): Question {
+	if (!raw || typeof raw !== 'object') throw new Error(t('error.questionNotObject'));
+	const type = raw.type === undefined ? 'single' : raw.type;
+	if (!isQuestionType(type)) throw new Error(t('error.unknownType', { type: String(raw.type) }));
+	if (typeof raw.question !== 'string' || !raw.question.trim()) throw new Error(t('error.emptyQuestion'));
+
+	const base = {
+		filePath,
+		question: raw.question.trim(),
+		bloomLevel: Number.isInteger(raw.bloomLevel) && raw.bloomLevel in BLOOM_LEVEL_NAMES ? raw.bloomLevel : 2,
+		explanation: typeof raw.explanation === 'string' && raw.explanation.trim() ? raw.explanation.trim() : undefined,
+		sourceExcerpt: typeof raw.sourceExcerpt === 'string' && raw.sourceExcerpt.trim() ? raw.sourceExcerpt.trim() : undefined,
+		heading: typeof raw.heading === 'string' && raw.heading.trim() ? raw.heading.trim() : undefined,
+		blockId: typeof raw.blockId === 'string' && /^[\w-]+$/.test(raw.blockId) ? raw.blockId : undefined,
+		section: typeof raw.section === 'string' ? raw.section : undefined,
+		local: raw.local === true ? true : undefined
+	};
+	const isStringList = (value: unknown, min: number): value is string[] =>
+		Array.isArray(value) && value.length >= min && value.every(item => typeof item === 'string' && item.trim());
+
+	switch (type) {
+		case 'single':
+			if (!isStringList(raw.options, 2)) throw new Error(t('error.tooFewOptions'));
+			if (!Number.isInteger(raw.correctIndex) || raw.correctIndex < 0 || raw.correctIndex >= raw.options.length) {
+				throw new Error(t('error.correctIndexRange'));
+			}
+			return Object.assign(base, { type, options: raw.options, correctIndex: raw.correctIndex });
+		case 'multi': {
+			if (!isStringList(raw.options, 2)) throw new Error(t('error.tooFewOptions'));
+			const indices = raw.correctIndices;
+			if (!Array.isArray(indices) || indices.length === 0 ||
+				!indices.every((i: unknown) => Number.isInteger(i) && (i as number) >= 0 && (i as number) < raw.options.length)) {
+				throw new Error(t('error.correctIndexRange'));
+			}
+			return Object.assign(base, { type, options: raw.options, correctIndices: Array.from(new Set<number>(indices)).sort((a, b) => a - b) });
+		}
+		case 'truefalse':
+			if (typeof raw.answer !== 'boolean') throw new Error(t('error.truefalseAnswer'));
+			return Object.assign(base, { type, answer: raw.answer });
+		case 'cloze': {
+			if (!isStringList(raw.answers, 1)) throw new Error(t('error.clozeAnswers'));
+			const blanks = raw.question.split(CLOZE_BLANK).length - 1;
+			if (blanks !== raw.answers.length) throw new Error(t('error.clozeMismatch', { blanks, answers: raw.answers.length }));
+			return Object.assign(base, { type, answers: raw.answers });
+		}
+		case 'recall':
+			if (typeof raw.answer !== 'string' || !raw.answer.trim()) throw new Error(t('error.recallAnswer'));
+			return Object.assign(base, { type, answer: raw.answer.trim() });
+	}
+}
+
+// 章节统计的键：有块 ID 时为 ^id，否则为标题，标题之前的引言为空字符串；
+// 没有记录 section 的旧题目按标题或块 ID 推算
+function sectionKey(source: { section?: string; heading?: string; blockId?: string }): string {
+	if (source.section !== undefined) return source.section;
+	return source.blockId ? `^${source.blockId}` : source.heading || '';
+}
+
+// 章节出题的优先顺序：未考过的最先，其次按答错率从高到低，同等时取最久未考的
+function compareSections(stats: Record<string, SectionStats>, a: string, b: string): number {
+	const priority = (key: string) => {
+		const sectionStats = stats[key];
+		if (!sectionStats || sectionStats.total === 0) return 2;
+		return (sectionStats.total - sectionStats.correct) / sectionStats.total;
+	};
+	return priority(b) - priority(a) || (stats[a]?.lastAsked ?? 0) - (stats[b]?.lastAsked ?? 0);
+}
+
+// 跳转到出题章节的链接子路径，块 ID 比标题更精确
+function questionSubpath(question: Question): string {
+	if (question.blockId) return `#^${question.blockId}`;
+	return question.heading ? `#${question.heading}` : '';
+}
+
+type SchemaFieldType = 'string' | 'integer' | 'boolean' | 'string[]' | 'integer[]';
+
+interface SchemaField {
+	type: SchemaFieldType;
+	description: TranslationKey;
+}
+
+interface QuestionSchema {
+	// 该题型的出题要求，附加在提示词中
+	rules: TranslationKey[];
+	fields: Record<string, SchemaField>;
+	// 提示词中的示例，与提示词使用同一种语言
+	examples: Record<Locale, Record<string, unknown>>;
+}
+
+// 所有题型共有的字段
+const COMMON_QUESTION_FIELDS: Record<string, SchemaField> = {
+	type: { type: 'string', description: 'field.type' },
+	question: { type: 'string', description: 'field.question' },
+	explanation: { type: 'string', description: 'field.explanation' },
+	bloomLevel: { type: 'integer', description: 'field.bloomLevel' },
+	sourceExcerpt: { type: 'string', description: 'field.sourceExcerpt' }
+};
+
+const QUESTION_SCHEMAS: Record<QuestionType, QuestionSchema> = {
+	single: {
+		rules: ['rule.singleOptions', 'rule.distractors'],
+		fields: {
+			options: { type: 'string[]', description: 'field.options' },
+			correctIndex: { type: 'integer', description: 'field.correctIndex' }
+		},
+		examples: {
+			'en': {
+				type: 'single',
+				bloomLevel: 1,
+				question: 'Which algorithm is best suited for sorting a linked list?',
+				options: ['Quicksort', 'Merge sort', 'Bubble sort', 'Selection sort'],
+				correctIndex: 1,
+				explanation: 'Merge sort only needs sequential access, which suits linked lists without random access.',
+				sourceExcerpt: 'Linked lists are usually sorted with merge sort.'
+			},
+			'zh-CN': {
+				type: 'single',
+				bloomLevel: 1,
+				question: '哪个算法最适合处理链表排序？',
+				options: ['快速排序', '归并排序', '冒泡排序', '选择排序'],
+				correctIndex: 1,
+				explanation: '归并排序只需顺序访问，适合无法随机访问的链表。',
+				sourceExcerpt: '链表排序通常使用归并排序。'
+			}
+		}
+	},
+	multi: {
+		rules: ['rule.multiOptions', 'rule.distractors'],
+		fields: {
+			options: { type: 'string[]', description: 'field.options' },
+			correctIndices: { type: 'integer[]', description: 'field.correctIndices' }
+		},
+		examples: {
+			'en': {
+				type: 'multi',
+				bloomLevel: 2,
+				question: 'Which of the following sorting algorithms are stable?',
+				options: ['Merge sort', 'Quicksort', 'Insertion sort', 'Heapsort'],
+				correctIndices: [0, 2],
+				explanation: 'Merge sort and insertion sort keep the relative order of equal elements.',
+				sourceExcerpt: 'Stable sorting algorithms include merge sort and insertion sort.'
+			},
+			'zh-CN': {
+				type: 'multi',
+				bloomLevel: 2,
+				question: '以下哪些排序算法是稳定的？',
+				options: ['归并排序', '快速排序', '插入排序', '堆排序'],
+				correctIndices: [0, 2],
+				explanation: '归并排序和插入排序不会改变相等元素的相对顺序。',
+				sourceExcerpt: '稳定的排序算法包括归并排序和插入排序。'
+			}
+		}
+	},
+	truefalse: {
+		rules: ['rule.truefalse'],
+		fields: {
+			answer: { type: 'boolean', description: 'field.truefalseAnswer' }
+		},
+		examples: {
+			'en': {
+				type: 'truefalse',
+				bloomLevel: 1,
+				question: 'The worst-case time complexity of merge sort is O(n log n).',
+				answer: true,
+				explanation: 'Each level of merging takes O(n) and there are log n levels.',
+				sourceExcerpt: 'Merge sort always runs in O(n log n) time.'
+			},
+			'zh-CN': {
+				type: 'truefalse',
+				bloomLevel: 1,
+				question: '归并排序在最坏情况下的时间复杂度是O(n log n)。',
+				answer: true,
+				explanation: '归并排序每层合并耗时O(n)，共log n层。',
+				sourceExcerpt: '归并排序的时间复杂度始终为O(n log n)。'
+			}
+		}
+	},
+	cloze: {
+		rules: ['rule.clozeBlank', 'rule.clozeCount'],
+		fields: {
+			answers: { type: 'string[]', description: 'field.clozeAnswers' }
+		},
+		examples: {
+			'en': {
+				type: 'cloze',
+				bloomLevel: 1,
+				question: `Merge sort uses a ${CLOZE_BLANK} strategy and runs in ${CLOZE_BLANK} time.`,
+				answers: ['divide and conquer', 'O(n log n)'],
+				explanation: 'Merge sort repeatedly halves the sequence and then merges the halves.',
+				sourceExcerpt: 'Merge sort is a divide-and-conquer sorting algorithm.'
+			},
+			'zh-CN': {
+				type: 'cloze',
+				bloomLevel: 1,
+				question: `归并排序采用${CLOZE_BLANK}策略，时间复杂度为${CLOZE_BLANK}。`,
+				answers: ['分治', 'O(n log n)'],
+				explanation: '归并排序把序列不断二分后合并。',
+				sourceExcerpt: '归并排序是基于分治思想的排序算法。'
+			}
+		}
+	},
+	recall: {
+		rules: ['rule.recall'],
+		fields: {
+			answer: { type: 'string', description: 'field.recallAnswer' }
+		},
+		examples: {
+			'en': {
+				type: 'recall',
+				bloomLevel: 2,
+				question: 'Why is merge sort well suited to linked lists?',
+				answer: 'Linked lists have no random access, and merge sort only needs sequential access and can merge nodes in place.',
+				explanation: 'Algorithms such as quicksort rely on random access.',
+				sourceExcerpt: 'Linked lists are usually sorted with merge sort.'
+			},
+			'zh-CN': {
+				type: 'recall',
+				bloomLevel: 2,
+				question: '为什么归并排序适合链表？',
+				answer: '链表无法随机访问，而归并排序只需顺序访问并可在原地合并节点。',
+				explanation: '快速排序等算法依赖随机访问。',
+				sourceExcerpt: '链表排序通常使用归并排序。'
+			}
+		}
+	}
+};
+
+function getSchemaFields(type: QuestionType): Record<string, SchemaField> {
+	return Object.assign({}, COMMON_QUESTION_FIELDS, QUESTION_SCHEMAS[type].fields);
+}
+
+// 按字段定义检查结构，返回全部错误，便于一次性反馈给模型修复
+function validateAgainstSchema(raw: unknown, type: QuestionType): string[] {
+	if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+		return [t('error.notJsonObject')];
+	}
+	const value = raw as Record<string, unknown>;
+	const errors: string[] = [];
+	const fields = getSchemaFields(type);
+	for (const name of Object.keys(fields)) {
+		const field = value[name];
+		const expected = fields[name].type;
+		const valid =
+			expected === 'string' ? typeof field === 'string' && field.trim() !== '' :
+			expected === 'integer' ? Number.isInteger(field) :
+			expected === 'boolean' ? typeof field === 'boolean' :
+			expected === 'string[]' ? Array.isArray(field) && field.every(item => typeof item === 'string') :
+			Array.isArray(field) && field.every(item => Number.isInteger(item));
+		if (!valid) {
+			errors.push(field === undefined ? t('error.missingField', { name }) : t('error.fieldType', { name, type: expected }));
+		}
+	}
+	if (value.type !== type) {
+		errors.push(t('error.typeField', { type }));
+	}
+	if (Number.isInteger(value.bloomLevel) && !((value.bloomLevel as number) in BLOOM_LEVEL_NAMES)) {
+		errors.push(t('error.bloomRange'));
+	}
+	return errors;
+}
+
+// 去掉代码块标记等多余内容，截取最外层的JSON对象
+function extractJsonObject(text: string): unknown {
+	const stripped = text.replace(/```(?:json)?/gi, '');
+	const start = stripped.indexOf('{');
+	const end = stripped.lastIndexOf('}');
+	if (start < 0 || end <= start) {
+		throw new Error(t('error.noJson'));
+	}
+	return JSON.parse(stripped.slice(start, end + 1));
+}
+
+// 宽松解析格式不规范的JSON：去掉注释和末尾逗号，单引号和中文弯引号括起的字符串改为双引号，给未加引号的键补上引号
+function parseLooseJson(text: string): unknown {
+	const stripped = text.replace(/```(?:json)?/gi, '');
+	const start = stripped.indexOf('{');
+	const end = stripped.lastIndexOf('}');
+	if (start < 0 || end <= start) {
+		throw new Error(t('error.noJson'));
+	}
+	const source = stripped.slice(start, end + 1);
+	const closingQuotes: Record<string, string> = { '"': '"', "'": "'", '“': '”' };
+	let output = '';
+	let i = 0;
+	while (i < source.length) {
+		const char = source[i];
+		if (char in closingQuotes) {
+			// 逐字符复制字符串，字符串内的弯引号原样保留，其中的双引号需要转义
+			const closing = closingQuotes[char];
+			let value = '';
+			i++;
+			while (i < source.length && source[i] !== closing) {
+				if (source[i] === '\\' && i + 1 < source.length) {
+					value += source[i + 1] === "'" ? "'" : source[i] + source[i + 1];
+					i += 2;
+					continue;
+				}
+				value += source[i] === '"' ? '\\"' : source[i] === '\n' ? '\\n' : source[i];
+				i++;
+			}
+			output += `"${value}"`;
+			i++;
+		} else if (source.startsWith('//', i)) {
+			while (i < source.length && source[i] !== '\n') i++;
+		} else if (source.startsWith('/*', i)) {
+			const commentEnd = source.indexOf('*/', i + 2);
+			i = commentEnd < 0 ? source.length : commentEnd + 2;
+		} else if (char === '}' || char === ']') {
+			output = output.replace(/,\s*$/, '') + char;
+			i++;
+		} else if (/[A-Za-z_$]/.test(char)) {
+			// 后面跟冒号的标识符才是键，true/false/null 等值原样保留
+			const word = source.slice(i).match(/^[\w$]+/)![0];
+			output += /^\s*:/.test(source.slice(i + word.length)) ? `"${word}"` : word;
+			i += word.length;
+		} else {
+			output += char;
+			i++;
+		}
+	}
+	return JSON.parse(output);
+}
+
+// auto 时按笔记正文识别主要语言，识别不出时使用界面语言
+function resolveQuestionLanguage(setting: QuestionLanguage | 'auto', content: string): QuestionLanguage {
+	if (setting !== 'auto') return setting;
+	const detected = detectLanguage(extractProse(content));
+	if (!detected) return currentLocale;
+	return detected.language === 'zh' ? 'zh-CN' : detected.language;
+}
+
+// 提示词只有中英文两种，其他语言使用英文提示词并要求用该语言出题
+function promptLocale(language: QuestionLanguage): Locale {
+	return language === 'zh-CN' ? 'zh-CN' : 'en';
+}
+
+interface NoteSection {
+	key: string;
+	heading?: string;
+	blockId?: string;
+	text: string;
+}
+
+// 单次出题发送的章节长度上限，过长的章节按段落切分
+const SECTION_MAX_LENGTH = 1500;
+// 正文过短的章节不足以出题
+const SECTION_MIN_LENGTH = 40;
+// 不参与出题的块：frontmatter、代码、HTML、注释和分隔线
+const SKIPPED_SECTION_TYPES = ['yaml', 'code', 'html', 'comment', 'thematicBreak'];
+
+// 去掉嵌入、注释和行尾的块 ID 标记
+function cleanSectionText(text: string): string {
+	return text
+		.replace(/%%[\s\S]*?%%/g, '')
+		.replace(/!\[\[[^\]]*\]\]|!\[[^\]]*\]\([^)]*\)/g, '')
+		.replace(/\s+\^[\w-]+$/gm, '')
+		.trim();
+}
+
+// 按 metadataCache 的标题和块把笔记切成章节；缓存缺失或与内容不符时整篇作为一个章节
+function extractSections(content: string, cache: CachedMetadata | null): NoteSection[] {
+	const wholeNote = (): NoteSection[] => {
+		const text = cleanSectionText(content.replace(/^---\n[\s\S]*?\n---\n?/, '').replace(/```[\s\S]*?```/g, ''));
+		return text ? [{ key: '', text: text.substring(0, SECTION_MAX_LENGTH) }] : [];
+	};
+	const blocks = cache?.sections || [];
+	if (blocks.length === 0 || blocks.some(block => block.position.end.offset > content.length)) return wholeNote();
+
+	const blockIds = Object.keys(cache?.blocks || {}).map(id => cache!.blocks![id]);
+	const headings = cache?.headings || [];
+	const groups: { heading?: string; parts: { text: string; blockId?: string }[] }[] = [{ parts: [] }];
+	for (const block of blocks) {
+		const { start, end } = block.position;
+		if (block.type === 'heading') {
+			const heading = headings.find(h => h.position.start.offset === start.offset);
+			groups.push({ heading: heading?.heading, parts: [] });
+			continue;
+		}
+		if (SKIPPED_SECTION_TYPES.includes(block.type)) continue;
+		const text = cleanSectionText(content.slice(start.offset, end.offset));
+		if (!text) continue;
+		const blockId = block.id || blockIds.find(b => b.position.start.offset >= start.offset && b.position.end.offset <= end.offset)?.id;
+		groups[groups.length - 1].parts.push({ text, blockId });
+	}
+
+	const sections: NoteSection[] = [];
+	const usedKeys = new Set<string>();
+	for (const group of groups) {
+		let chunk: { text: string; blockId?: string }[] = [];
+		const flush = (first: boolean) => {
+			const body = chunk.map(part => part.text).join('\n\n');
+			if (body.length >= SECTION_MIN_LENGTH) {
+				// 标题下的第一段用标题定位，其余分块用块内第一个块 ID 定位
+				const blockId = first && group.heading ? undefined : chunk.find(part => part.blockId)?.blockId;
+				// 同一标题下没有块 ID 的分块、以及重名标题，按出现顺序加序号区分
+				const base = sectionKey({ heading: group.heading, blockId });
+				let key = base;
+				for (let n = 2; usedKeys.has(key); n++) key = `${base}#${n}`;
+				usedKeys.add(key);
+				sections.push({
+					heading: group.heading,
+					blockId,
+					key,
+					text: (group.heading ? `## ${group.heading}\n\n${body}` : body).substring(0, SECTION_MAX_LENGTH)
+				});
+			}
+			chunk = [];
+		};
+		let first = true;
+		let length = 0;
+		for (const part of group.parts) {
+			if (chunk.length > 0 && length + part.text.length > SECTION_MAX_LENGTH) {
+				flush(first);
+				first = false;
+				length = 0;
+			}
+			chunk.push(part);
+			length += part.text.length;
+		}
+		if (chunk.length > 0) flush(first);
+	}
+	return sections.length > 0 ? sections : wholeNote();
+}
+
+// 按 compareSections 选出最该出题的章节，exclude 中的章节只在没有其他章节时才会选中
+function pickSection(sections: NoteSection[], stats: Record<string, SectionStats>, exclude: string[] = []): NoteSection | undefined {
+	const fresh = sections.filter(section => !exclude.includes(section.key));
+	const candidates = fresh.length > 0 ? fresh : sections;
+	return candidates
+		.map((section, order) => ({ section, order }))
+		.sort((a, b) => compareSections(stats, a.section.key, b.section.key) || a.order - b.order)[0]?.section;
+}
+
+class QuestionGenerator {
+	private localGenerator: LocalQuestionGenerator;
+
+	constructor(private plugin: MyPlugin) {
+		this.localGenerator = new LocalQuestionGenerator(plugin);
+	}
+
+	// 未配置服务或请求失败时，自动改用本地规则出题；exclude 为本批已出过题的章节，batch 用于取消整批出题
+	async generateQuestion(file: TFile, type: QuestionType = this.pickQuestionType(file), exclude: string[] = [], batch?: AbortSignal): Promise<Question> {
+		const content = await this.plugin.app.vault.read(file);
+		const sections = extractSections(content, this.plugin.app.metadataCache.getFileCache(file));
+		const section = pickSection(sections, this.plugin.dataManager.getSectionStats(file.path), exclude);
+		if (!createProvider(this.plugin.settings).isConfigured()) {
+			return this.localGenerator.generateQuestion(file, this.getQuestionTypes(file), section);
+		}
+		try {
+			return await this.generateWithProvider(file, type, content, section, batch);
+		} catch (error) {
+			if (!this.plugin.settings.localFallback || isGenerationStopped(error) || batch?.aborted) throw error;
+			console.warn(`LLM出题失败，改用本地出题: ${file.path}`, error);
+			try {
+				return await this.localGenerator.generateQuestion(file, this.getQuestionTypes(file), section);
+			} catch (localError) {
+				console.warn("本地出题失败:", localError.message);
+				throw error;
+			}
+		}
+	}
+
+	private async generateWithProvider(file: TFile, type: QuestionType, content: string, section?: NoteSection, batch?: AbortSignal): Promise<Question> {
+		let retries = 3;
+		while (retries > 0) {
+			try {
+				const bloomLevel = await this.getTargetBloomLevel(file);
+				const language = resolveQuestionLanguage(this.plugin.settings.questionLanguage, content);
+				const messages: ChatMessage[] = [{
+					role: "user",
+					content: this.buildPrompt(section ? section.text : content.substring(0, SECTION_MAX_LENGTH), type, bloomLevel, language)
+				}];
+				
+				const response = await this.requestQuestion(messages, batch);
+
+				const result = await this.parseWithRepair(messages, response.content, file.path, type, bloomLevel, promptLocale(language), batch);
+				return Object.assign(result, { heading: section?.heading, blockId: section?.blockId, section: section?.key });
 				
-				const notice = new Notice('正在生成复习题目...', 0);
+			} catch (error) {
+				if (!isGenerationStopped(error) && !batch?.aborted && retries > 0 && error instanceof QuestionParseError) {
+					retries--;
+					await new Promise(resolve => setTimeout(resolve, 1000));
+					continue;
+				}
+				throw error;
+			}
+		}
+		throw new Error('Failed to generate question after 3 attempts');
+	}
+
+	// 经由生成队列发送，每次请求前检查预算，完成后记录用量
+	private requestQuestion(messages: ChatMessage[], batch?: AbortSignal): Promise<ChatResponse> {
+		const provider = createProvider(this.plugin.settings);
+		return this.plugin.generationQueue.run(async signal => {
+			this.plugin.usage.assertWithinBudget();
+			const response = await provider.chat({
+				messages,
+				temperature: this.plugin.settings.temperature,
+				maxTokens: this.plugin.settings.maxTokens,
+				jsonMode: true,
+				signal
+			});
+			await this.plugin.usage.record(provider.id, response.usage || {
+				inputTokens: estimateTokens(messages.map(m => m.content).join('\n')),
+				outputTokens: estimateTokens(response.content)
+			});
+			return response;
+		}, batch);
+	}
+
+	// 目标层级由认知阶段决定，再按该笔记在各层级的正确率上下调整
+	async getTargetBloomLevel(file: TFile): Promise<number> {
+		// 出题只读取阶段，不推进阶段的平滑
+		const { stage } = await this.plugin.dataManager.evaluateStage(file, false);
+		const stats = this.plugin.dataManager.getBloomStats(file.path);
+		const accuracy = (level: number) => {
+			const levelStats = stats[level];
+			// 作答次数太少时不作调整
+			return levelStats && levelStats.total >= 3 ? levelStats.correct / levelStats.total : null;
+		};
+
+		const base = STAGE_BLOOM_BASE[stage];
+		let level = base;
+		// 已掌握的层级逐级上调
+		while (level < 6 && (accuracy(level) ?? 0) >= 0.85) level++;
+		// 起始层级掌握不佳时下调一级
+		if (level === base && (accuracy(base) ?? 1) < 0.6) level = Math.max(1, base - 1);
+		return level;
+	}
+
+	// 先按 schema 校验 JSON 输出，失败时把错误反馈给模型修复一次，仍失败才回退到宽松解析
+	private async parseWithRepair(messages: ChatMessage[], output: string, filePath: string, type: QuestionType, bloomLevel: number, locale: Locale, batch?: AbortSignal): Promise<Question> {
+		try {
+			return this.parseStructured(output, filePath, type, bloomLevel);
+		} catch (validationError) {
+			console.warn("题目校验失败，尝试修复:", validationError.message);
+			try {
+				const repaired = await this.requestQuestion([
+					...messages,
+					{ role: 'assistant', content: output },
+					{ role: 'user', content: t('prompt.repair', { errors: validationError.message }, locale) }
+				], batch);
+				// 修复后的层级与目标不一致时以模型实际返回的为准
+				return this.parseStructured(repaired.content, filePath, type);
+			} catch (repairError) {
+				if (isGenerationStopped(repairError)) throw repairError;
+				console.warn("修复失败，回退到宽松解析:", repairError.message);
+				// 宽松解析无法确认层级，保留解析得到的层级而不是目标层级
+				return this.parseApiResponse(output, filePath, type);
+			}
+		}
+	}
+
+	// 传入目标层级时，模型返回的层级偏离超过一级也视为校验失败
+	private parseStructured(output: string, filePath: string, type: QuestionType, targetLevel?: number): Question {
+		const raw = extractJsonObject(output);
+		const errors = validateAgainstSchema(raw, type);
+		const returnedLevel = (raw as { bloomLevel?: unknown }).bloomLevel;
+		if (targetLevel !== undefined && typeof returnedLevel === 'number' && Math.abs(returnedLevel - targetLevel) > 1) {
+			errors.push(t('error.bloomMismatch', { returned: returnedLevel, target: targetLevel, name: t(BLOOM_LEVEL_NAMES[targetLevel]) }));
+		}
+		if (errors.length > 0) {
+			throw new Error(errors.join(t('common.separator')));
+		}
+		return validateQuestion(raw, filePath);
+	}
+
+	// 笔记 frontmatter 中的 mf-question-types 优先于全局设置
+	getQuestionTypes(file: TFile): QuestionType[] {
+		const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+		const raw = frontmatter?.['mf-question-types'];
+		const noteTypes = (Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',') : [])
+			.map((t: unknown) => String(t).trim())
+			.filter(isQuestionType);
+		if (noteTypes.length > 0) return noteTypes;
+		return this.plugin.settings.questionTypes.length > 0 ? this.plugin.settings.questionTypes : ['single'];
+	}
+
+	private pickQuestionType(file: TFile): QuestionType {
+		const types = this.getQuestionTypes(file);
+		return types[Math.floor(Math.random() * types.length)];
+	}
+
+	private buildPrompt(excerpt: string, type: QuestionType, bloomLevel: number, language: QuestionLanguage): string {
+		const locale = promptLocale(language);
+		const schema = QUESTION_SCHEMAS[type];
+		const fields = getSchemaFields(type);
+		const rules = [
+			t('prompt.focus', {}, locale),
+			t('prompt.bloom', {
+				level: bloomLevel,
+				name: t(BLOOM_LEVEL_NAMES[bloomLevel], {}, locale),
+				description: t(BLOOM_LEVEL_DESCRIPTIONS[bloomLevel], {}, locale)
+			}, locale),
+			...schema.rules.map(rule => t(rule, { blank: CLOZE_BLANK }, locale)),
+			t('prompt.language', { language: QUESTION_LANGUAGE_NAMES[language] }, locale),
+			t('prompt.explanation', {}, locale),
+			t('prompt.sourceExcerpt', {}, locale)
+		];
+		// 添加更明确的提示语
+		return `${t('prompt.intro', { type: t(QUESTION_TYPE_NAMES[type], {}, locale) }, locale)}
+${excerpt}
+
+${t('prompt.requirements', {}, locale)}
+${rules.map((rule, i) => `${i + 1}. ${rule}`).join('\n')}
+
+${t('prompt.fields', {}, locale)}
+${Object.keys(fields).map(name => `- ${name} (${fields[name].type}): ${t(fields[name].description, {}, locale)}`).join('\n')}
+
+${t('prompt.example', {}, locale)}
+${JSON.stringify(schema.examples[locale], null, 2)}`;
+	}
+
+	// 修复仍失败时宽松解析原始输出，模型漏写题型时按请求的题型补上
+	private parseApiResponse(response: string, filePath: string, type: QuestionType): Question {
+		try {
+			const raw = parseLooseJson(response);
+			return validateQuestion(Object.assign({ type }, raw), filePath);
+		} catch (e) {
+			throw new QuestionParseError(e.message);
+		}
+	}
+}
+
+interface TermFact {
+	term: string;
+	definition: string;
+	// 摘录原文中的句子，bold 类型中已包含术语
+	sentence: string;
+	kind: 'field' | 'definition' | 'heading' | 'bold';
+	heading?: string;
+}
+
+// 不依赖LLM的本地出题：从笔记结构中提取术语和定义生成填空题
+class LocalQuestionGenerator {
+	private readonly MAX_SIBLINGS = 20;
+
+	constructor(private plugin: MyPlugin) {}
+
+	// 指定章节时优先从该章节的术语出题
+	async generateQuestion(file: TFile, types: QuestionType[], section?: NoteSection): Promise<Question> {
+		const content = await this.plugin.app.vault.cachedRead(file);
+		const facts = this.extractFacts(content);
+		if (facts.length === 0) {
+			throw new Error(t('error.noLocalFacts'));
+		}
+
+		const locale = promptLocale(resolveQuestionLanguage(this.plugin.settings.questionLanguage, content));
+		const inSection = section ? facts.filter(f => (f.heading || '') === this.clean(section.heading || '')) : [];
+		const pool = inSection.length > 0 ? inSection : facts;
+		const fact = pool[Math.floor(Math.random() * pool.length)];
+		const distractors = await this.pickDistractors(file, fact, facts);
+		const stem = fact.kind === 'bold'
+			? fact.sentence.replace(fact.term, CLOZE_BLANK)
+			: t('local.definition', { blank: CLOZE_BLANK, definition: fact.definition }, locale);
+		const base = {
+			filePath: file.path,
+			question: stem,
+			bloomLevel: 1,
+			explanation: fact.heading ? t('local.fromSection', { heading: fact.heading }, locale) : undefined,
+			sourceExcerpt: fact.sentence,
+			heading: inSection.length > 0 ? section?.heading : fact.heading,
+			blockId: inSection.length > 0 ? section?.blockId : undefined,
+			section: inSection.length > 0 ? section?.key : undefined,
+			local: true
+		};
+
+		// 干扰项足够时出单选题，否则出需要填写的填空题
+		if (types.includes('single') && distractors.length >= 3) {
+			const options = this.shuffle([fact.term, ...distractors.slice(0, 3)]);
+			return Object.assign(base, { type: 'single' as const, options, correctIndex: options.indexOf(fact.term) });
+		}
+		return Object.assign(base, { type: 'cloze' as const, answers: [fact.term] });
+	}
+
+	extractFacts(content: string): TermFact[] {
+		const facts: TermFact[] = [];
+		const lines = this.stripNoise(content).split('\n');
+		let heading: string | undefined;
+
+		lines.forEach((line, i) => {
+			const trimmed = line.trim();
+			const headingMatch = trimmed.match(/^#{1,6}\s+(.+)$/);
+			if (headingMatch) {
+				heading = this.clean(headingMatch[1]);
+				// 标题下第一段作为标题术语的解释
+				const paragraph = lines.slice(i + 1).map(l => l.trim()).find(l => l);
+				if (paragraph && !/^#{1,6}\s/.test(paragraph)) {
+					this.pushFact(facts, heading, this.clean(paragraph), paragraph, 'heading', heading);
+				}
+				return;
+			}
+
+			// Dataview 行内字段：term:: definition
+			const fieldMatch = trimmed.match(/^[-*]?\s*([^:]{1,40})::\s*(.+)$/);
+			if (fieldMatch) {
+				this.pushFact(facts, this.clean(fieldMatch[1]), this.clean(fieldMatch[2]), trimmed, 'field', heading);
+				return;
+			}
+
+			// 定义列表：术语一行，下一行以 ": " 开头
+			const next = lines[i + 1]?.trim();
+			if (trimmed && next && /^:\s+/.test(next) && !trimmed.startsWith(':')) {
+				this.pushFact(facts, this.clean(trimmed), this.clean(next.replace(/^:\s+/, '')), `${trimmed} ${next}`, 'definition', heading);
+				return;
+			}
+
+			const boldPattern = /\*\*([^*]{1,40})\*\*|__([^_]{1,40})__/g;
+			let match: RegExpExecArray | null;
+			while ((match = boldPattern.exec(trimmed)) !== null) {
+				const term = this.clean(match[1] || match[2]);
+				const sentence = this.clean(trimmed.replace(/\*\*|__/g, ''));
+				// 句子太短时挖空后没有足够的上下文
+				if (sentence.length - term.length >= 8) {
+					this.pushFact(facts, term, sentence, sentence, 'bold', heading);
+				}
+			}
+		});
+
+		return facts;
+	}
+
+	private pushFact(facts: TermFact[], term: string, definition: string, sentence: string, kind: TermFact['kind'], heading?: string) {
+		if (!term || !definition || term === definition) return;
+		if (facts.some(f => f.term === term && f.kind === kind)) return;
+		facts.push({ term, definition, sentence: this.clean(sentence), kind, heading });
+	}
+
+	// 移除 frontmatter、代码块、公式块和嵌入，避免从中提取术语
+	private stripNoise(content: string): string {
+		return content
+			.replace(/^---\n[\s\S]*?\n---\n?/, '')
+			.replace(/```[\s\S]*?```/g, '')
+			.replace(/\$\$[\s\S]*?\$\$/g, '')
+			.replace(/!\[\[[^\]]*\]\]|!\[[^\]]*\]\([^)]*\)/g, '');
+	}
+
+	private clean(text: string): string {
+		return text
+			.replace(/\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|([^\]]+))?\]\]/g, (_, target, alias) => alias || target)
+			.replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+			.replace(/[*_`=~]/g, '')
+			.replace(/^[-*+]\s+|^\d+\.\s+|^>\s*/, '')
+			.trim();
+	}
+
+	// 干扰项优先取同文件夹其他笔记的术语，不足时用本笔记的其他术语补充
+	private async pickDistractors(file: TFile, fact: TermFact, facts: TermFact[]): Promise<string[]> {
+		const siblingTerms = new Set<string>();
+		const siblings = (file.parent?.children || [])
+			.filter((f): f is TFile => f instanceof TFile && f.extension === 'md' && f.path !== file.path)
+			.slice(0, this.MAX_SIBLINGS);
+		for (const sibling of siblings) {
+			const siblingContent = await this.plugin.app.vault.cachedRead(sibling);
+			this.extractFacts(siblingContent).forEach(f => siblingTerms.add(f.term));
+		}
+		const ownTerms = Array.from(new Set(facts.map(f => f.term))).filter(term => !siblingTerms.has(term));
+		const differs = (term: string) => normalizeAnswer(term) !== normalizeAnswer(fact.term);
+		return [
+			...this.shuffle(Array.from(siblingTerms).filter(differs)),
+			...this.shuffle(ownTerms.filter(differs))
+		];
+	}
+
+	private shuffle<T>(items: T[]): T[] {
+		const result = items.slice();
+		for (let i = result.length - 1; i > 0; i--) {
+			const j = Math.floor(Math.random() * (i + 1));
+			[result[i], result[j]] = [result[j], result[i]];
+		}
+		return result;
+	}
+}
+
+// 本地生成的题目至少间隔这么久才尝试用 LLM 重新生成，避免离线时每次抽题都请求
+const LOCAL_UPGRADE_INTERVAL_MS = 60 * 60 * 1000;
+
+// 按笔记保存生成的题目，笔记内容不变时重复使用
+class QuestionBank {
+	constructor(private plugin: MyPlugin, private generator: QuestionGenerator) {}
+
+	// 优先从题库抽题，题库为空或已失效时重新生成。
+	// 抽题按章节的覆盖和薄弱程度排序；笔记中有比题库里任何一题都更该考的章节时，为该章节补出一题
+	async drawQuestion(file: TFile, batch?: AbortSignal): Promise<Question> {
+		const content = await this.plugin.app.vault.read(file);
+		let entry = this.getValidEntry(file, content);
+		if (entry && this.shouldUpgrade(entry)) {
+			try {
+				await this.generate(file, content, batch);
+				entry = this.plugin.dataManager.getQuestionBankEntry(file.path)!;
+			} catch (error) {
+				// LLM 仍不可用时继续使用本地题目
+				console.warn(`重新生成本地题目失败: ${file.path}`, error);
+			}
+		}
+		if (!entry) {
+			await this.generate(file, content, batch);
+			entry = this.plugin.dataManager.getQuestionBankEntry(file.path)!;
+		}
+
+		const stats = this.plugin.dataManager.getSectionStats(file.path);
+		let question = this.rankQuestions(entry, stats)[0];
+		if (!entry.edited) {
+			const inBank = entry.questions.map(sectionKey);
+			const sections = extractSections(content, this.plugin.app.metadataCache.getFileCache(file))
+				.filter(section => !inBank.includes(section.key));
+			const target = pickSection(sections, stats);
+			if (target && compareSections(stats, target.key, sectionKey(question)) < 0) {
 				try {
-					const questions = await Promise.all(
-						selectedFiles.map(f => 
-							this.questionGenerator.generateQuestion(f)
-							.catch(e => {
-								console.error(`生成题目失败: ${f.path}`, e);
-								return null;
-							})
-						)
-					);
-					
-					const validQuestions = questions.filter(q => q !== null) as Question[];
-					if (validQuestions.length > 0) {
-						new ReviewSession(this, validQuestions).open();
-					} else {
-						new Notice('无法生成任何有效题目');
-					}
-				} finally {
-					notice.hide();
-					progressNotice.hide();
+					question = await this.addQuestion(file, entry, stats, inBank, batch);
+				} catch (error) {
+					// 补题失败时照常使用题库中的题目
+					console.warn(`补充章节题目失败: ${file.path}`, error);
 				}
 			}
+		}
+
+		const index = entry.questions.indexOf(question);
+		entry.nextIndex = (index + 1) % entry.questions.length;
+		return Object.assign({}, question, { filePath: file.path });
+	}
+
+	// 题库中有本地生成的题目且已配置服务时，用 LLM 重新生成；手动编辑过的题库不动
+	private shouldUpgrade(entry: QuestionBankEntry): boolean {
+		return !entry.edited
+			&& entry.questions.some(question => question.local)
+			&& Date.now() - entry.updatedAt >= LOCAL_UPGRADE_INTERVAL_MS
+			&& createProvider(this.plugin.settings).isConfigured();
+	}
+
+	// 同等优先级的题目从 nextIndex 开始轮换
+	private rankQuestions(entry: QuestionBankEntry, stats: Record<string, SectionStats>): Question[] {
+		const count = entry.questions.length;
+		return entry.questions
+			.map((question, i) => ({ question, offset: (i - entry.nextIndex + count) % count }))
+			.sort((a, b) => compareSections(stats, sectionKey(a.question), sectionKey(b.question)) || a.offset - b.offset)
+			.map(item => item.question);
+	}
+
+	// 新题加入题库，超出每篇笔记的题目数时去掉最不需要考的一题
+	private async addQuestion(file: TFile, entry: QuestionBankEntry, stats: Record<string, SectionStats>, inBank: string[], batch?: AbortSignal): Promise<Question> {
+		const question = await this.generator.generateQuestion(file, undefined, inBank, batch);
+		const limit = Math.max(1, this.plugin.settings.questionsPerNote);
+		if (entry.questions.length >= limit) {
+			const ranked = this.rankQuestions(entry, stats);
+			entry.questions.splice(entry.questions.indexOf(ranked[ranked.length - 1]), 1);
+		}
+		entry.questions.push(question);
+		entry.updatedAt = Date.now();
+		return question;
+	}
+
+	async regenerate(file: TFile): Promise<Question[]> {
+		const content = await this.plugin.app.vault.read(file);
+		return this.generate(file, content);
+	}
+
+	getQuestions(filePath: string): Question[] {
+		return this.plugin.dataManager.getQuestionBankEntry(filePath)?.questions || [];
+	}
+
+	saveEdited(file: TFile, content: string, questions: Question[]) {
+		this.plugin.dataManager.setQuestionBankEntry(file.path, {
+			contentHash: this.hashBody(file, content),
+			questions,
+			updatedAt: Date.now(),
+			edited: true,
+			nextIndex: 0
+		});
+	}
+
+	private getValidEntry(file: TFile, content: string): QuestionBankEntry | undefined {
+		const entry = this.plugin.dataManager.getQuestionBankEntry(file.path);
+		if (!entry || entry.questions.length === 0) return undefined;
+		const bodyHash = this.hashBody(file, content);
+		// 旧题库按全文计算哈希，匹配时改存正文哈希
+		if (entry.contentHash === hashContent(content)) entry.contentHash = bodyHash;
+		if (!entry.edited && entry.contentHash !== bodyHash) return undefined;
+		return entry;
+	}
+
+	// 只对正文计算哈希，frontmatter 同步写入指标时题目仍然有效
+	private hashBody(file: TFile, content: string): string {
+		const position = this.plugin.app.metadataCache.getFileCache(file)?.frontmatterPosition;
+		// 缓存可能落后于刚写入的内容，位置对不上时按分隔线去掉 frontmatter
+		const body = position && content.slice(position.end.offset - 3, position.end.offset) === '---'
+			? content.slice(position.end.offset)
+			: content.replace(/^---\n[\s\S]*?\n---/, '');
+		return hashContent(body);
+	}
+
+	private async generate(file: TFile, content: string, batch?: AbortSignal): Promise<Question[]> {
+		const questions: Question[] = [];
+		const count = Math.max(1, this.plugin.settings.questionsPerNote);
+		for (let i = 0; i < count; i++) {
+			questions.push(await this.generator.generateQuestion(file, undefined, questions.map(sectionKey), batch));
+		}
+
+		this.plugin.dataManager.setQuestionBankEntry(file.path, {
+			contentHash: this.hashBody(file, content),
+			questions,
+			updatedAt: Date.now(),
+			edited: false,
+			nextIndex: 0
+		});
+		return questions;
+	}
+}
+
+// FNV-1a 32位哈希，用于判断笔记内容是否变化
+function hashContent(content: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < content.length; i++) {
+		hash ^= content.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16);
+}
+
+class QuestionEditModal extends Modal {
+	constructor(private plugin: MyPlugin, private bank: QuestionBank, private file: TFile) {
+		super(plugin.app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h2', { text: t('edit.title', { name: this.file.basename }) });
+		contentEl.createEl('p', { text: t('edit.desc') });
+		contentEl.createEl('p', {
+			text: t('edit.types', { types: Object.keys(QUESTION_TYPE_NAMES).join(' / ') }),
+			cls: 'setting-item-description'
+		});
+
+		const textarea = contentEl.createEl('textarea', { cls: 'question-edit-textarea' });
+		const questions = this.bank.getQuestions(this.file.path).map(q => {
+			const editable: Partial<Question> = Object.assign({}, q);
+			delete editable.filePath;
+			return editable;
+		});
+		textarea.value = JSON.stringify(questions, null, 2);
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText(t('common.save'))
+				.setCta()
+				.onClick(async () => {
+					try {
+						const parsed = this.parseQuestions(textarea.value);
+						const content = await this.plugin.app.vault.read(this.file);
+						this.bank.saveEdited(this.file, content, parsed);
+						await this.plugin.dataManager.saveData();
+						new Notice(t('notice.questionsSaved', { count: parsed.length }));
+						this.close();
+					} catch (e) {
+						new Notice(t('notice.saveFailed', { message: e.message }));
+					}
+				}))
+			.addButton(button => button
+				.setButtonText(t('common.cancel'))
+				.onClick(() => this.close()));
+	}
+
+	private parseQuestions(raw: string): Question[] {
+		const parsed = JSON.parse(raw);
+		if (!Array.isArray(parsed)) {
+			throw new Error(t('error.notQuestionArray'));
+		}
+		return parsed.map((q: unknown, index: number) => {
+			try {
+				return validateQuestion(q, this.file.path);
+			} catch (e) {
+				throw new Error(t('error.invalidQuestionAt', { index: index + 1, message: e.message }));
+			}
+		});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+const REVIEW_VIEW_TYPE = 'mindforge-review';
+
+interface ReviewResult {
+	question: Question;
+	isCorrect: boolean | null;
+	rating: ReviewRating;
+	nextDue: number;
+}
+
+const RATING_LABELS: Record<ReviewRating, TranslationKey> = {
+	[ReviewRating.Again]: 'rating.again',
+	[ReviewRating.Hard]: 'rating.hard',
+	[ReviewRating.Good]: 'rating.good',
+	[ReviewRating.Easy]: 'rating.easy'
+};
+
+interface AnswerState {
+	// null 表示没有标准判分，需要用户自评
+	isCorrect: boolean | null;
+	selected: number[];
+	texts: string[];
+}
+
+interface RenderContext<Q extends Question> {
+	el: HTMLElement;
+	question: Q;
+	// 作答后不为空，此时渲染为锁定状态
+	answer: AnswerState | null;
+	submit: (answer: AnswerState) => void;
+}
+
+interface QuestionRenderer<Q extends Question> {
+	render(ctx: RenderContext<Q>): void;
+	correctAnswer(question: Q): string;
+	// 作答前的快捷键，返回是否已处理
+	handleKey?(key: string, ctx: RenderContext<Q>): boolean;
+	keyHint: TranslationKey;
+}
+
+const OPTION_KEYS = 'abcdefghi';
+
+function optionLabel(index: number): string {
+	return String.fromCharCode(65 + index);
+}
+
+function keyToOptionIndex(key: string): number {
+	return /^[1-9]$/.test(key) ? Number(key) - 1 : OPTION_KEYS.indexOf(key);
+}
+
+function normalizeAnswer(text: string): string {
+	return text.toLowerCase().replace(/[\s.,;:!?'"，。；：！？、“”‘’（）()]/g, '');
+}
+
+function renderOptionButtons(ctx: RenderContext<SingleChoiceQuestion | MultiSelectQuestion>, correct: number[], selected: number[], onClick: (index: number) => void) {
+	const optionsEl = ctx.el.createDiv('options-container');
+	ctx.question.options.forEach((opt, i) => {
+		const btn = optionsEl.createEl('button', { text: `${optionLabel(i)}. ${opt}`, cls: 'option-btn' });
+		if (ctx.answer) {
+			btn.disabled = true;
+			if (correct.includes(i)) btn.addClass('is-correct');
+			else if (ctx.answer.selected.includes(i)) btn.addClass('is-wrong');
+		} else {
+			if (selected.includes(i)) btn.addClass('is-selected');
+			btn.onclick = () => onClick(i);
+		}
+	});
+}
+
+const singleChoiceRenderer: QuestionRenderer<SingleChoiceQuestion> = {
+	keyHint: 'hint.single',
+	render(ctx) {
+		ctx.el.createEl('h3', { text: ctx.question.question });
+		renderOptionButtons(ctx, [ctx.question.correctIndex], [], i => this.handleKey!(String(i + 1), ctx));
+	},
+	correctAnswer(question) {
+		return `${optionLabel(question.correctIndex)}. ${question.options[question.correctIndex]}`;
+	},
+	handleKey(key, ctx) {
+		const index = keyToOptionIndex(key);
+		if (index < 0 || index >= ctx.question.options.length) return false;
+		ctx.submit({ isCorrect: index === ctx.question.correctIndex, selected: [index], texts: [] });
+		return true;
+	}
+};
+
+// 多选题在提交前保存已勾选的选项
+const multiSelections = new WeakMap<MultiSelectQuestion, number[]>();
+
+const multiSelectRenderer: QuestionRenderer<MultiSelectQuestion> = {
+	keyHint: 'hint.multi',
+	render(ctx) {
+		const selected = multiSelections.get(ctx.question) || [];
+		ctx.el.createEl('h3', { text: ctx.question.question });
+		ctx.el.createDiv({ cls: 'review-hint', text: t('review.multiple') });
+		renderOptionButtons(ctx, ctx.question.correctIndices, selected, i => this.handleKey!(String(i + 1), ctx));
+		if (!ctx.answer) {
+			const submit = ctx.el.createEl('button', { text: t('review.submit'), cls: 'mod-cta' });
+			submit.onclick = () => this.handleKey!('enter', ctx);
+		}
+	},
+	correctAnswer(question) {
+		return question.correctIndices.map(i => `${optionLabel(i)}. ${question.options[i]}`).join(t('common.separator'));
+	},
+	handleKey(key, ctx) {
+		const selected = multiSelections.get(ctx.question) || [];
+		if (key === 'enter') {
+			if (selected.length === 0) return true;
+			const expected = ctx.question.correctIndices;
+			const isCorrect = selected.length === expected.length && expected.every(i => selected.includes(i));
+			multiSelections.delete(ctx.question);
+			ctx.submit({ isCorrect, selected, texts: [] });
+			return true;
+		}
+		const index = keyToOptionIndex(key);
+		if (index < 0 || index >= ctx.question.options.length) return false;
+		multiSelections.set(ctx.question, selected.includes(index) ? selected.filter(i => i !== index) : [...selected, index]);
+		// 重新渲染以显示勾选状态
+		ctx.el.empty();
+		this.render(ctx);
+		return true;
+	}
+};
+
+const trueFalseRenderer: QuestionRenderer<TrueFalseQuestion> = {
+	keyHint: 'hint.truefalse',
+	render(ctx) {
+		ctx.el.createEl('h3', { text: ctx.question.question });
+		const optionsEl = ctx.el.createDiv('options-container');
+		[true, false].forEach((value, i) => {
+			const btn = optionsEl.createEl('button', { text: value ? t('review.true') : t('review.false'), cls: 'option-btn' });
+			if (ctx.answer) {
+				btn.disabled = true;
+				if (value === ctx.question.answer) btn.addClass('is-correct');
+				else if (ctx.answer.selected.includes(i)) btn.addClass('is-wrong');
+			} else {
+				btn.onclick = () => this.handleKey!(value ? 't' : 'f', ctx);
+			}
 		});
+	},
+	correctAnswer(question) {
+		return question.answer ? t('review.true') : t('review.false');
+	},
+	handleKey(key, ctx) {
+		const value = key === 't' || key === '1' ? true : key === 'f' || key === '2' ? false : null;
+		if (value === null) return false;
+		ctx.submit({ isCorrect: value === ctx.question.answer, selected: [value ? 0 : 1], texts: [] });
+		return true;
 	}
+};
+
+const clozeRenderer: QuestionRenderer<ClozeQuestion> = {
+	keyHint: 'hint.cloze',
+	render(ctx) {
+		const { question, answer } = ctx;
+		const textEl = ctx.el.createEl('h3', { cls: 'cloze-text' });
+		const inputs: HTMLInputElement[] = [];
+		question.question.split(CLOZE_BLANK).forEach((part, i, parts) => {
+			textEl.appendText(part);
+			if (i === parts.length - 1) return;
+			const input = textEl.createEl('input', { type: 'text', cls: 'cloze-input' });
+			if (answer) {
+				input.value = answer.texts[i] || '';
+				input.disabled = true;
+				const correct = normalizeAnswer(input.value) === normalizeAnswer(question.answers[i]);
+				input.addClass(correct ? 'is-correct' : 'is-wrong');
+			}
+			inputs.push(input);
+		});
+		if (answer) return;
 
-	private getDueFiles(): TFile[] {
-		return this.app.vault.getMarkdownFiles().filter(file => {
-			const data = this.dataManager.getMemoryData(file.path);
-			const strength = this.dataManager.calculateMemoryStrength(file.path);
-			const weight = this.dataManager.calculateCurrentWeight(file.path);
-			const daysSinceLastReview = (Date.now() - (data?.lastReviewTime || 0)) / (1000 * 3600 * 24);
+		const submit = () => {
+			const texts = inputs.map(input => input.value);
+			const isCorrect = texts.every((text, i) => normalizeAnswer(text) === normalizeAnswer(question.answers[i]));
+			ctx.submit({ isCorrect, selected: [], texts });
+		};
+		inputs.forEach(input => input.addEventListener('keydown', (evt: KeyboardEvent) => {
+			if (evt.key === 'Enter') {
+				evt.preventDefault();
+				evt.stopPropagation();
+				submit();
+			}
+		}));
+		ctx.el.createEl('button', { text: t('review.submit'), cls: 'mod-cta' }).onclick = submit;
+		window.setTimeout(() => inputs[0]?.focus(), 0);
+	},
+	correctAnswer(question) {
+		return question.answers.join(t('common.separator'));
+	}
+};
+
+const recallRenderer: QuestionRenderer<RecallQuestion> = {
+	keyHint: 'hint.recall',
+	render(ctx) {
+		ctx.el.createEl('h3', { text: ctx.question.question });
+		const textarea = ctx.el.createEl('textarea', { cls: 'recall-input', attr: { placeholder: t('review.recallPlaceholder') } });
+		if (ctx.answer) {
+			textarea.value = ctx.answer.texts[0] || '';
+			textarea.disabled = true;
+			return;
+		}
+		const reveal = () => ctx.submit({ isCorrect: null, selected: [], texts: [textarea.value] });
+		textarea.addEventListener('keydown', (evt: KeyboardEvent) => {
+			if (evt.key === 'Enter' && (evt.ctrlKey || evt.metaKey)) {
+				evt.preventDefault();
+				reveal();
+			}
+		});
+		ctx.el.createEl('button', { text: t('review.showAnswer'), cls: 'mod-cta' }).onclick = reveal;
+	},
+	correctAnswer(question) {
+		return question.answer;
+	},
+	handleKey(key, ctx) {
+		if (key !== 'enter') return false;
+		ctx.submit({ isCorrect: null, selected: [], texts: [] });
+		return true;
+	}
+};
+
+const QUESTION_RENDERERS: { [T in QuestionType]: QuestionRenderer<QuestionOf<T>> } = {
+	single: singleChoiceRenderer,
+	multi: multiSelectRenderer,
+	truefalse: trueFalseRenderer,
+	cloze: clozeRenderer,
+	recall: recallRenderer
+};
+
+function getRenderer(question: Question): QuestionRenderer<Question> {
+	return QUESTION_RENDERERS[question.type] as QuestionRenderer<Question>;
+}
 
-			// 增强筛选条件
-			return (
-				(strength < 0.8 && data?.consecutiveSuccess < 3) ||  // 连续正确3次不再出现
-				(weight > 0.6 && daysSinceLastReview > 2) ||         // 高权重文件2天后可再现
-				(daysSinceLastReview > 7 && data?.historicalSuccessRate.filter(Boolean).length < 3) // 未掌握内容
-			);
-		}).sort(() => Math.random() - 0.5); // 添加随机排序
+function renderBloomStatsTable(containerEl: HTMLElement, stats: Record<number, BloomLevelStats>) {
+	const table = containerEl.createEl('table', { cls: 'review-summary bloom-stats' });
+	const head = table.createEl('tr');
+	[t('stats.level'), t('stats.attempts'), t('stats.accuracy')].forEach(text => head.createEl('th', { text }));
+	for (const level of Object.keys(BLOOM_LEVEL_NAMES).map(Number)) {
+		const levelStats = stats[level];
+		const row = table.createEl('tr');
+		row.createEl('td', { text: `${level}. ${t(BLOOM_LEVEL_NAMES[level])}` });
+		row.createEl('td', { text: String(levelStats?.total || 0) });
+		row.createEl('td', { text: levelStats?.total ? `${(levelStats.correct / levelStats.total * 100).toFixed(0)}%` : '-' });
 	}
 }
 
-class SampleModal extends Modal {
-	constructor(app: App) {
-		super(app);
+class ReviewStatsModal extends Modal {
+	constructor(private plugin: MyPlugin) {
+		super(plugin.app);
 	}
 
 	onOpen() {
-		const {contentEl} = this;
-		contentEl.setText('Woah!');
+		const { contentEl } = this;
+		contentEl.createEl('h2', { text: t('stats.title') });
+		contentEl.createEl('p', { text: t('stats.desc') });
+		renderBloomStatsTable(contentEl, this.plugin.dataManager.getBloomStats());
+
+		const file = this.app.workspace.getActiveFile();
+		if (file && this.plugin.dataManager.getMemoryData(file.path)) {
+			contentEl.createEl('h3', { text: t('stats.currentNote', { name: file.basename }) });
+			renderBloomStatsTable(contentEl, this.plugin.dataManager.getBloomStats(file.path));
+		}
 	}
 
 	onClose() {
-		const {contentEl} = this;
-		contentEl.empty();
+		this.contentEl.empty();
 	}
 }
 
-class SampleSettingTab extends PluginSettingTab {
-	plugin: MyPlugin;
+// 复习工作区：逐题作答，作答后锁定选项并评分，结束时显示总结
+class ReviewView extends ItemView {
+	private questions: Question[] = [];
+	private index = 0;
+	private answer: AnswerState | null = null;
+	private results: ReviewResult[] = [];
+	// 评分保存期间屏蔽所有输入，直到渲染下一题
+	private grading = false;
+
+	constructor(leaf: WorkspaceLeaf, private plugin: MyPlugin) {
+		super(leaf);
+	}
 
-	constructor(app: App, plugin: MyPlugin) {
-		super(app, plugin);
-		this.plugin = plugin;
+	getViewType(): string {
+		return REVIEW_VIEW_TYPE;
 	}
 
-	display(): void {
-		const {containerEl} = this;
+	getDisplayText(): string {
+		return t('review.title');
+	}
 
-		containerEl.empty();
+	getIcon(): string {
+		return 'brain-circuit';
+	}
 
-		new Setting(containerEl)
-			.setName('Initial Weight')
-			.addText(text => text
-				.setValue(this.plugin.settings.initialWeight.toString())
-				.onChange(async (value) => {
-					this.plugin.settings.initialWeight = Number(value);
-					await this.plugin.saveSettings();
-				}));
+	async onOpen() {
+		this.contentEl.addClass('mindforge-review');
+		this.contentEl.tabIndex = 0;
+		this.registerDomEvent(this.contentEl, 'keydown', (evt: KeyboardEvent) => this.handleKey(evt));
+		this.render();
+	}
 
-		new Setting(containerEl)
-			.setName('Decay Coefficient (λ)')
-			.addText(text => text
-				.setValue(this.plugin.settings.decayLambda.toString())
-				.onChange(async (value) => {
-					this.plugin.settings.decayLambda = Number(value);
-					await this.plugin.saveSettings();
-				}));
+	async onClose() {
+		this.contentEl.empty();
+	}
 
-		new Setting(containerEl)
-			.setName('Interaction Coefficient (β)')
-			.addText(text => text
-				.setValue(this.plugin.settings.betaCoefficient.toString())
-				.onChange(async (value) => {
-					this.plugin.settings.betaCoefficient = Number(value);
-					await this.plugin.saveSettings();
-				}));
+	startSession(questions: Question[]) {
+		this.questions = questions;
+		this.index = 0;
+		this.answer = null;
+		this.grading = false;
+		this.results = [];
+		this.render();
+		this.contentEl.focus();
+	}
 
-		new Setting(containerEl)
-			.setName('Daily Update Time')
-			.addText(text => text
-				.setValue(this.plugin.settings.dailyUpdateTime)
-				.onChange(async (value) => {
-					this.plugin.settings.dailyUpdateTime = value;
-					await this.plugin.saveSettings();
-				}));
+	private get current(): Question | undefined {
+		return this.questions[this.index];
+	}
 
-		new Setting(containerEl)
-			.setName('Alpha Coefficient (α)')
-			.addText(text => text
-				.setValue(this.plugin.settings.alpha.toString())
-				.onChange(async (value) => {
-					this.plugin.settings.alpha = Number(value);
-					await this.plugin.saveSettings();
-				}));
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
 
-		new Setting(containerEl)
-			.setName('DeepSeek API Key')
-			.addText(text => text
-				.setValue(this.plugin.settings.deepseekApiKey)
-				.onChange(async (value) => {
-					this.plugin.settings.deepseekApiKey = value;
-					await this.plugin.saveSettings();
-				}));
+		if (this.questions.length === 0) {
+			contentEl.createEl('p', { text: t('review.empty', { command: t('command.startReview') }) });
+			return;
+		}
+		if (!this.current) {
+			this.renderSummary();
+			return;
+		}
 
-		new Setting(containerEl)
-			.setName('Temperature')
-			.addSlider(slider => slider
-				.setLimits(0, 1, 0.1)
-				.setValue(this.plugin.settings.temperature)
-				.onChange(async (value) => {
-					this.plugin.settings.temperature = value;
-					await this.plugin.saveSettings();
-				}));
+		const question = this.current;
+		const header = contentEl.createDiv('review-header');
+		header.createSpan({ text: t('review.progress', { current: this.index + 1, total: this.questions.length }), cls: 'review-progress' });
+		const sourceText = question.heading ? `${question.filePath} › ${question.heading}` : question.filePath;
+		const sourceLink = header.createEl('a', { text: sourceText, cls: 'review-source-link' });
+		sourceLink.onclick = () => this.openSource(question);
 
-		new Setting(containerEl)
-			.setName('Max Tokens')
-			.addText(text => text
-				.setValue(this.plugin.settings.maxTokens.toString())
-				.onChange(async (value) => {
-					this.plugin.settings.maxTokens = Number(value);
-					await this.plugin.saveSettings();
-				}));
+		const renderer = getRenderer(question);
+		const questionEl = contentEl.createDiv('question-container');
+		contentEl.createDiv({ cls: 'review-type', text: t(QUESTION_TYPE_NAMES[question.type]) });
+		renderer.render(this.renderContext(question, questionEl));
 
-		// 添加验证API密钥的按钮
-		new Setting(containerEl)
-			.setName('验证API密钥')
-			.addButton(button => {
-				button.setButtonText('验证')
-					.onClick(async () => {
-						const notice = new Notice('正在验证API密钥，请稍候...', 0); // 0表示持续显示的通知
-						const isValid = await this.validateApiKey(this.plugin.settings.deepseekApiKey);
-						notice.hide(); // 隐藏通知
-						new Notice(isValid ? 'API密钥有效！' : 'API密钥无效，请检查。');
-					});
+		if (this.answer) {
+			this.renderFeedback(question);
+		} else {
+			contentEl.createDiv({ cls: 'review-hint', text: t('review.keyHint', { keys: t(renderer.keyHint) }) });
+		}
+	}
+
+	private renderContext(question: Question, el: HTMLElement): RenderContext<Question> {
+		return {
+			el,
+			question,
+			answer: this.answer,
+			submit: (answer) => {
+				if (this.answer || this.grading) return;
+				this.answer = answer;
+				this.render();
+				this.contentEl.focus();
+			}
+		};
+	}
+
+	private renderFeedback(question: Question) {
+		const isCorrect = this.answer?.isCorrect;
+		const feedback = this.contentEl.createDiv('review-feedback');
+		const correctAnswer = getRenderer(question).correctAnswer(question);
+		if (isCorrect === null) {
+			feedback.createEl('p', { text: t('review.referenceAnswer', { answer: correctAnswer }) });
+		} else {
+			feedback.createEl('p', {
+				text: isCorrect ? t('review.correct') : t('review.wrong', { answer: correctAnswer }),
+				cls: isCorrect ? 'is-correct' : 'is-wrong'
 			});
+		}
+		if (question.explanation) {
+			feedback.createEl('p', { text: question.explanation, cls: 'review-explanation' });
+		}
+		if (question.sourceExcerpt) {
+			feedback.createEl('blockquote', { text: question.sourceExcerpt, cls: 'review-excerpt' });
+		}
+
+		const ratingsEl = this.contentEl.createDiv('review-ratings');
+		const suggested = this.suggestedRating();
+		for (const rating of [ReviewRating.Again, ReviewRating.Hard, ReviewRating.Good, ReviewRating.Easy]) {
+			const btn = ratingsEl.createEl('button', { text: `${rating}. ${t(RATING_LABELS[rating])}` });
+			if (rating === suggested) btn.addClass('mod-cta');
+			// 答错时只能评为“重来”
+			btn.disabled = !this.isRatingAllowed(rating);
+			btn.onclick = () => this.grade(rating);
+		}
+		this.contentEl.createDiv({ cls: 'review-hint', text: t('review.ratingHint') });
 	}
 
-	private async validateApiKey(apiKey: string): Promise<boolean> {
-		// 基础验证保持不变
-		if (!apiKey) {
-			new Notice('API密钥不能为空');
-			return false;
+	private renderSummary() {
+		const { contentEl } = this;
+		// 自评题按评分计入：评为“重来”视为答错
+		const correct = this.results.filter(r => r.isCorrect ?? r.rating !== ReviewRating.Again).length;
+		const accuracy = this.results.length > 0 ? correct / this.results.length : 0;
+
+		contentEl.createEl('h2', { text: t('review.complete') });
+		contentEl.createEl('p', { text: t('review.accuracy', { percent: (accuracy * 100).toFixed(0), correct, total: this.results.length }) });
+
+		const sessionStats: Record<number, BloomLevelStats> = {};
+		for (const result of this.results) {
+			const stats = sessionStats[result.question.bloomLevel] || { correct: 0, total: 0 };
+			stats.total++;
+			if (result.isCorrect ?? result.rating !== ReviewRating.Again) stats.correct++;
+			sessionStats[result.question.bloomLevel] = stats;
 		}
-		if (!apiKey.startsWith('sk-')) {
-			new Notice('API密钥格式错误（应以sk-开头）');
-			return false;
+		contentEl.createEl('h3', { text: t('review.levelAccuracy') });
+		renderBloomStatsTable(contentEl, sessionStats);
+
+		const table = contentEl.createEl('table', { cls: 'review-summary' });
+		const head = table.createEl('tr');
+		[t('review.question'), t('metric.note'), t('review.result'), t('review.rating'), t('metric.due')].forEach(text => head.createEl('th', { text }));
+		for (const result of this.results) {
+			const row = table.createEl('tr');
+			row.createEl('td', { text: result.question.question, cls: 'review-summary-question', attr: { title: result.question.question } });
+			const link = row.createEl('td').createEl('a', { text: result.question.filePath });
+			link.onclick = () => this.openSource(result.question);
+			row.createEl('td', { text: result.isCorrect === null ? t('review.selfGraded') : result.isCorrect ? '✅' : '❌' });
+			row.createEl('td', { text: t(RATING_LABELS[result.rating]) });
+			row.createEl('td', { text: new Date(result.nextDue).toLocaleDateString() });
 		}
 
-		const controller = new AbortController();
-		const timeoutId = setTimeout(() => controller.abort(), 10000); // 延长超时到10秒
+		const closeButton = contentEl.createEl('button', { text: t('review.close'), cls: 'mod-cta' });
+		closeButton.onclick = () => this.leaf.detach();
+	}
 
-		try {
-			// 改为调用聊天接口
-			const response = await fetch('https://api.deepseek.com/v1/chat/completions', {
-				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-					'Authorization': `Bearer ${apiKey}`
-				},
-				signal: controller.signal,
-				body: JSON.stringify({
-					model: "deepseek-chat",
-					messages: [{
-						role: "user",
-						content: "你好"
-					}],
-					temperature: 0.1,
-					max_tokens: 5
-				})
-			});
+	private suggestedRating(): ReviewRating {
+		return this.answer?.isCorrect === false ? ReviewRating.Again : ReviewRating.Good;
+	}
 
-			clearTimeout(timeoutId);
+	private isRatingAllowed(rating: ReviewRating): boolean {
+		return this.answer?.isCorrect !== false || rating === ReviewRating.Again;
+	}
 
-			// 只要响应正常即视为有效
-			if (!response.ok) {
-				const errorData = await response.json();
-				throw new Error(`API响应异常: ${errorData?.message || '未知错误'}`);
-			}
+	// 每道题只记录一次结果
+	private async grade(rating: ReviewRating) {
+		const question = this.current;
+		if (!question || this.grading || !this.answer || !this.isRatingAllowed(rating)) return;
+		const isCorrect = this.answer.isCorrect;
+		// 防止等待保存期间重复评分或提前作答下一题
+		this.grading = true;
+		try {
+			this.plugin.dataManager.updateTestResult(question.filePath, rating, question.bloomLevel, sectionKey(question));
+			await this.plugin.dataManager.saveData();
 
-			// 检查是否包含有效响应内容
-			const data = await response.json();
-			const hasValidResponse = !!data.choices?.[0]?.message?.content;
-			
-			if (!hasValidResponse) {
-				throw new Error('API返回空响应');
-			}
+			this.results.push({
+				question,
+				isCorrect,
+				rating,
+				nextDue: this.plugin.dataManager.getMemoryData(question.filePath).due
+			});
+			this.index++;
+			this.answer = null;
+		} finally {
+			this.grading = false;
+		}
+		this.render();
+	}
 
-			return true;
+	private openSource(question: Question) {
+		this.app.workspace.openLinkText(question.filePath + questionSubpath(question), '', true);
+	}
 
-		} catch (error) {
-			clearTimeout(timeoutId);
-			console.error('验证失败:', error);
-			new Notice(`验证失败: ${error.message}`);
-			return false;
+	private handleKey(evt: KeyboardEvent) {
+		if (evt.ctrlKey || evt.metaKey || evt.altKey) return;
+		// 输入框内的按键交给输入框自己处理
+		if (evt.target instanceof HTMLInputElement || evt.target instanceof HTMLTextAreaElement) return;
+		const key = evt.key.toLowerCase();
+		const question = this.current;
+		if (!question || this.grading) return;
+
+		if (key === 'o') {
+			this.openSource(question);
+		} else if (!this.answer) {
+			const renderer = getRenderer(question);
+			const questionEl = this.contentEl.querySelector<HTMLElement>('.question-container');
+			if (!questionEl || !renderer.handleKey?.(key, this.renderContext(question, questionEl))) return;
+		} else if (key === 'enter') {
+			this.grade(this.suggestedRating());
+		} else if (/^[1-4]$/.test(key)) {
+			this.grade(Number(key) as ReviewRating);
+		} else {
+			return;
 		}
+		evt.preventDefault();
 	}
 }
 
-class QuestionGenerator {
-	private readonly API_ENDPOINT = 'https://api.deepseek.com/v1/chat/completions';
-	
-	constructor(private plugin: MyPlugin) {}
+const DASHBOARD_VIEW_TYPE = 'mindforge-dashboard';
 
-	async generateQuestion(file: TFile): Promise<Question> {
-		let retries = 3;
-		while (retries > 0) {
-			try {
-				const notice = new Notice('', 0);
-				let content = ''; // Declare outside try block
-				
-				content = await this.plugin.app.vault.read(file); // Now accessible in catch
-				const prompt = this.buildPrompt(content);
-				
-				console.log("正在发送API请求...");
-				const response = await fetch(this.API_ENDPOINT, {
-					method: 'POST',
-					headers: {
-						'Content-Type': 'application/json',
-						'Authorization': `Bearer ${this.plugin.settings.deepseekApiKey}`
-					},
-					body: JSON.stringify({
-						model: "deepseek-chat",
-						messages: [{
-							role: "user",
-							content: prompt
-						}],
-						temperature: this.plugin.settings.temperature,
-						max_tokens: this.plugin.settings.maxTokens,
-						top_p: 0.95
-					})
-				});
+interface DashboardRow {
+	file: TFile;
+	weight: number;
+	complexity: number;
+	engagement: number;
+	centrality: number;
+	stage: CognitiveStage;
+	strength: number;
+	due: number | null;
+	tags: string[];
+}
 
-				const rawResponse = await response.text(); // First get raw response
-				console.log("原始API响应:", rawResponse);
+type DashboardColumn = Exclude<keyof DashboardRow, 'tags'>;
+
+const DASHBOARD_COLUMNS: { key: DashboardColumn; label: TranslationKey }[] = [
+	{ key: 'file', label: 'metric.note' },
+	{ key: 'weight', label: 'metric.weight' },
+	{ key: 'complexity', label: 'metric.complexity' },
+	{ key: 'engagement', label: 'metric.engagement' },
+	{ key: 'centrality', label: 'metric.centrality' },
+	{ key: 'stage', label: 'metric.stage' },
+	{ key: 'strength', label: 'metric.strength' },
+	{ key: 'due', label: 'metric.due' }
+];
+
+const STAGE_ORDER: Record<CognitiveStage, number> = { '新手': 0, '进阶': 1, '专家': 2 };
+
+// 已复习笔记中记忆强度最低的前几条
+const WEAKEST_NOTES_COUNT = 5;
+const RECENT_TRANSITIONS_COUNT = 10;
+
+class DashboardView extends ItemView {
+	private rows: DashboardRow[] = [];
+	private sortKey: DashboardColumn = 'weight';
+	private sortAsc = false;
+	private folderFilter = '';
+	private tagFilter = '';
+	private stageFilter: CognitiveStage | '' = '';
+	private loading = false;
+
+	constructor(leaf: WorkspaceLeaf, private plugin: MyPlugin) {
+		super(leaf);
+	}
 
-				if (!response.ok) {
-					console.error("API请求失败:", response.status, rawResponse);
-					throw new Error(`API请求失败: ${response.status} ${response.statusText}`);
-				}
+	getViewType(): string {
+		return DASHBOARD_VIEW_TYPE;
+	}
 
-				await new Promise(resolve => setTimeout(resolve, 500)); // 添加500ms间隔
+	getDisplayText(): string {
+		return t('dashboard.title');
+	}
 
-				try {
-					const data = JSON.parse(rawResponse);
-					const result = this.parseApiResponse(data.choices[0]?.message?.content, file.path);
-					notice.hide();
-					return result;
-				} catch (parseError) {
-					console.error("JSON解析失败:", parseError);
-					throw new Error("API返回了无效的JSON格式");
-				}
-				
-			} catch (error) {
-				if (retries > 0 && error.message.includes('JSON')) {
-					retries--;
-					await new Promise(resolve => setTimeout(resolve, 1000));
-					continue;
-				}
-				throw error;
-			}
+	getIcon(): string {
+		return 'layout-dashboard';
+	}
+
+	async onOpen() {
+		this.contentEl.addClass('mindforge-dashboard');
+		await this.refresh();
+	}
+
+	async onClose() {
+		this.contentEl.empty();
+	}
+
+	async refresh() {
+		if (this.loading) return;
+		this.loading = true;
+		this.contentEl.empty();
+		this.contentEl.createEl('p', { text: t('dashboard.loading') });
+		try {
+			this.rows = await this.collectRows();
+		} finally {
+			this.loading = false;
 		}
-		throw new Error('Failed to generate question after 3 attempts');
+		this.render();
 	}
 
-	private buildPrompt(content: string): string {
-		// 添加更明确的提示语
-		return `根据以下内容生成一个专业的选择题（保持选项简洁）：
-${content.substring(0, 1000)}...
+	// 仪表盘只读取数据，不推进交互深度的EMA
+	private async collectRows(): Promise<DashboardRow[]> {
+		const { dataManager } = this.plugin;
+		const rows: DashboardRow[] = [];
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (!dataManager.isTracked(file.path)) continue;
+			const { stage, scores } = await dataManager.evaluateStage(file, false);
+			const cache = this.app.metadataCache.getFileCache(file);
+			rows.push({
+				file,
+				weight: dataManager.calculateCurrentWeight(file.path),
+				complexity: scores.complexity,
+				engagement: scores.engagement,
+				centrality: scores.centrality,
+				stage,
+				strength: dataManager.calculateMemoryStrength(file.path),
+				due: dataManager.getMemoryData(file.path)?.due ?? null,
+				tags: cache ? (getAllTags(cache) || []) : []
+			});
+		}
+		return rows;
+	}
+
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const header = contentEl.createDiv('dashboard-header');
+		header.createEl('h2', { text: t('dashboard.title') });
+		const refreshButton = header.createEl('button', { text: t('dashboard.refresh') });
+		refreshButton.onclick = () => this.refresh();
+
+		if (this.rows.length === 0) {
+			contentEl.createEl('p', { text: t('dashboard.empty') });
+			return;
+		}
 
-要求：
-1. 问题要聚焦核心概念
-2. 选项用短语形式，每选项不超过15字
-3. 错误选项需包含常见误解
-4. 最后用ANSWER: x标记正确答案
+		this.renderFilters(contentEl);
+		const rows = this.filteredRows();
+		this.renderWeakest(contentEl, rows);
+		this.renderTransitions(contentEl, rows);
 
-格式示例：
-问题：哪个算法最适合处理链表排序？
-A. 快速排序
-B. 归并排序 
-C. 冒泡排序
-D. 选择排序
-ANSWER: B`;
+		contentEl.createEl('h3', { text: t('dashboard.allNotes', { shown: rows.length, total: this.rows.length }) });
+		this.renderTable(contentEl, this.sortRows(rows));
 	}
 
-	private parseApiResponse(response: string, filePath: string): Question {
-		try {
-			// 使用严格的正则分割题干和选项部分
-			const questionEndIndex = response.search(/(答案|ANSWER)[:：]|\n[A-D][\.．]/i);
-			const questionPart = response.slice(0, questionEndIndex).trim();
-			const optionsPart = response.slice(questionEndIndex);
-
-			// 提取题干（移除问题前缀）
-			let question = questionPart
-				.replace(/^问题[:：]?\s*/, '')
-				.split('\n')
-				.filter(line => !/^[A-D][\.．]/.test(line)) // 二次过滤题干中的选项行
-				.join('\n')
-				.trim();
-
-			// 提取有效选项（支持多行选项）
-			const options = optionsPart
-				.split('\n')
-				.filter(line => /^[A-D][\.．]/.test(line))
-				.slice(0, 4)
-				.map(l => {
-					const text = l.replace(/^[A-D][\.．]\s*/, '').trim();
-					return text.length > 20 ? text.substring(0,17) + "..." : text;
-				});
+	private renderFilters(containerEl: HTMLElement) {
+		const filtersEl = containerEl.createDiv('dashboard-filters');
+
+		const folders = Array.from(new Set(this.rows.map(row => row.file.parent?.path || '/'))).sort();
+		const folderSelect = filtersEl.createEl('select', { cls: 'dropdown' });
+		folderSelect.createEl('option', { text: t('dashboard.allFolders'), value: '' });
+		folders.forEach(folder => folderSelect.createEl('option', { text: folder, value: folder }));
+		folderSelect.value = this.folderFilter;
+		folderSelect.onchange = () => {
+			this.folderFilter = folderSelect.value;
+			this.render();
+		};
+
+		const tags = Array.from(new Set(([] as string[]).concat(...this.rows.map(row => row.tags)))).sort();
+		const tagSelect = filtersEl.createEl('select', { cls: 'dropdown' });
+		tagSelect.createEl('option', { text: t('dashboard.allTags'), value: '' });
+		tags.forEach(tag => tagSelect.createEl('option', { text: tag, value: tag }));
+		tagSelect.value = this.tagFilter;
+		tagSelect.onchange = () => {
+			this.tagFilter = tagSelect.value;
+			this.render();
+		};
 
-			// 提取正确答案（增强正则匹配）
-			const answerMatch = optionsPart.match(/(答案|ANSWER)[:：]\s*([A-D])/i);
-			const correctAnswer = answerMatch?.[2]?.trim();
-			const correctAnswerIndex = correctAnswer ? correctAnswer.charCodeAt(0) - 'A'.charCodeAt(0) : -1;
+		const stageSelect = filtersEl.createEl('select', { cls: 'dropdown' });
+		stageSelect.createEl('option', { text: t('dashboard.allStages'), value: '' });
+		(Object.keys(STAGE_ORDER) as CognitiveStage[]).forEach(stage => stageSelect.createEl('option', { text: stageName(stage), value: stage }));
+		stageSelect.value = this.stageFilter;
+		stageSelect.onchange = () => {
+			this.stageFilter = stageSelect.value as CognitiveStage | '';
+			this.render();
+		};
+	}
 
-			// 自动截断题干
-			if(question.length > 60) question = question.substring(0, 57) + "...";
+	// 子文件夹中的笔记也算在所选文件夹内
+	private filteredRows(): DashboardRow[] {
+		return this.rows.filter(row => {
+			const folder = row.file.parent?.path || '/';
+			if (this.folderFilter && this.folderFilter !== '/' &&
+				folder !== this.folderFilter && !folder.startsWith(this.folderFilter + '/')) return false;
+			if (this.folderFilter === '/' && folder !== '/') return false;
+			if (this.tagFilter && !row.tags.includes(this.tagFilter)) return false;
+			if (this.stageFilter && row.stage !== this.stageFilter) return false;
+			return true;
+		});
+	}
 
-			// 验证选项格式
-			if(options.length < 2 || correctAnswerIndex < 0 || correctAnswerIndex >= options.length) {
-				throw new Error(`选项验证失败，有效选项数：${options.length}，正确答案索引：${correctAnswerIndex}`);
+	private sortRows(rows: DashboardRow[]): DashboardRow[] {
+		const value = (row: DashboardRow): number | string => {
+			switch (this.sortKey) {
+				case 'file':
+					return row.file.path;
+				case 'stage':
+					return STAGE_ORDER[row.stage];
+				case 'due':
+					// 从未复习的笔记排在最后
+					return row.due ?? Number.MAX_SAFE_INTEGER;
+				default:
+					return row[this.sortKey];
 			}
+		};
+		const direction = this.sortAsc ? 1 : -1;
+		return rows.slice().sort((a, b) => {
+			const va = value(a);
+			const vb = value(b);
+			if (typeof va === 'string' && typeof vb === 'string') return va.localeCompare(vb) * direction;
+			return ((va as number) - (vb as number)) * direction;
+		});
+	}
 
-			return {
-				filePath,
-				question,
-				options,
-				correctIndex: correctAnswerIndex,
-				bloomLevel: 2
+	// 记忆强度低且认知权重高的笔记最需要复习
+	private renderWeakest(containerEl: HTMLElement, rows: DashboardRow[]) {
+		const weakest = rows
+			.filter(row => row.due !== null)
+			.sort((a, b) => a.strength - b.strength || b.weight - a.weight)
+			.slice(0, WEAKEST_NOTES_COUNT);
+		if (weakest.length === 0) return;
+
+		containerEl.createEl('h3', { text: t('dashboard.weakest') });
+		const list = containerEl.createEl('ul', { cls: 'dashboard-weakest' });
+		for (const row of weakest) {
+			const item = list.createEl('li');
+			const link = item.createEl('a', { text: row.file.basename });
+			link.onclick = () => this.openFile(row.file);
+			item.createSpan({ text: t('dashboard.weakestDetail', { percent: (row.strength * 100).toFixed(0), due: this.formatDue(row.due) }), cls: 'dashboard-muted' });
+		}
+	}
+
+	private renderTransitions(containerEl: HTMLElement, rows: DashboardRow[]) {
+		const files = new Map(rows.map(row => [row.file.path, row.file] as [string, TFile]));
+		const transitions = this.plugin.dataManager.getRecentTransitions(RECENT_TRANSITIONS_COUNT, new Set(files.keys()));
+		if (transitions.length === 0) return;
+
+		containerEl.createEl('h3', { text: t('dashboard.transitions') });
+		const list = containerEl.createEl('ul', { cls: 'dashboard-transitions' });
+		for (const transition of transitions) {
+			const file = files.get(transition.path)!;
+			const item = list.createEl('li');
+			const link = item.createEl('a', { text: file.basename });
+			link.onclick = () => this.openFile(file);
+			item.createSpan({
+				text: t('dashboard.transitionDetail', { from: stageName(transition.from), to: stageName(transition.to), date: new Date(transition.at).toLocaleDateString() }),
+				cls: 'dashboard-muted'
+			});
+		}
+	}
+
+	private renderTable(containerEl: HTMLElement, rows: DashboardRow[]) {
+		const table = containerEl.createEl('table', { cls: 'dashboard-table' });
+		const head = table.createEl('tr');
+		for (const column of DASHBOARD_COLUMNS) {
+			const arrow = column.key === this.sortKey ? (this.sortAsc ? ' ▲' : ' ▼') : '';
+			const th = head.createEl('th', { text: t(column.label) + arrow });
+			th.onclick = () => {
+				if (this.sortKey === column.key) {
+					this.sortAsc = !this.sortAsc;
+				} else {
+					this.sortKey = column.key;
+					this.sortAsc = column.key === 'file';
+				}
+				this.render();
 			};
-		} catch (e) {
-			console.error("原始响应内容：", response);
-			throw new Error(`解析失败: ${e.message}`);
+		}
+
+		for (const row of rows) {
+			const tr = table.createEl('tr');
+			const link = tr.createEl('td').createEl('a', { text: row.file.basename, attr: { title: row.file.path } });
+			link.onclick = () => this.openFile(row.file);
+			tr.createEl('td', { text: row.weight.toFixed(2) });
+			tr.createEl('td', { text: row.complexity.toFixed(2) });
+			tr.createEl('td', { text: row.engagement.toFixed(2) });
+			tr.createEl('td', { text: row.centrality.toFixed(2) });
+			const since = this.plugin.dataManager.getStageState(row.file.path)?.enteredAt;
+			tr.createEl('td', { text: stageName(row.stage), attr: since ? { title: t('dashboard.since', { date: new Date(since).toLocaleDateString() }) } : {} });
+			tr.createEl('td', { text: `${(row.strength * 100).toFixed(0)}%` });
+			tr.createEl('td', { text: this.formatDue(row.due) });
 		}
 	}
 
-	private getFallbackQuestion(content: string, filePath: string): Question {
-		// 改进的干扰项生成逻辑
-		const keywords = content.match(/[\u4e00-\u9fa5]{2,4}/g) || [];
-		const uniqueWords = [...new Set(keywords)].slice(0, 3);
-		
-		return {
-			filePath,
-			question: `请解释：${content.substring(0,50)}...`,
-			options: [
-				uniqueWords[0] ? `${uniqueWords[0]}相关错误选项` : "概念理解错误",
-				uniqueWords[1] ? `${uniqueWords[1]}常见误解` : "知识应用错误",
-				uniqueWords[2] ? `${uniqueWords[2]}干扰项` : "记忆偏差选项",
-				"以上都不正确"
-			],
-			correctIndex: 0,
-			bloomLevel: 1
-		};
+	private formatDue(due: number | null): string {
+		if (due === null) return t('dashboard.notReviewed');
+		return due <= Date.now() ? t('dashboard.due') : new Date(due).toLocaleDateString();
 	}
 
-	private generateDistractors(content: string): string[] {
-		// 改进的干扰项生成逻辑
-		const keywords = content.match(/[\u4e00-\u9fa5]{2,4}/g) || [];
-		const uniqueWords = [...new Set(keywords)].slice(0, 3);
-		
-		return [
-			uniqueWords[0] ? `${uniqueWords[0]}相关错误选项` : "概念理解错误",
-			uniqueWords[1] ? `${uniqueWords[1]}常见误解` : "知识应用错误",
-			uniqueWords[2] ? `${uniqueWords[2]}干扰项` : "记忆偏差选项",
-			"以上都不正确"
-		];
+	private openFile(file: TFile) {
+		this.app.workspace.getLeaf(false).openFile(file);
 	}
 }
 
-class ReviewSession {
-	constructor(private plugin: MyPlugin, private questions: Question[]) {}
+const HISTORY_VIEW_TYPE = 'mindforge-history';
 
-	open() {
-		class ReviewModal extends Modal {
-			constructor(
-				private plugin: MyPlugin, 
-				private questions: Question[]
-			) {
-				super(plugin.app);
-			}
+const CHART_WIDTH = 280;
+const CHART_HEIGHT = 60;
+const CHART_PADDING = 4;
 
-			onOpen() {
-				const { contentEl } = this;
-				contentEl.empty(); // 清空原有内容
-				
-				if (this.questions.length === 0) {
-					contentEl.createEl('p', { text: '暂无有效题目' });
-					return;
-				}
+interface ChartPoint {
+	// 日期键 YYYY-MM-DD，横坐标按日期而不是数组下标排布，缺失的日子留出间隔
+	day: string;
+	value: number;
+	// 复习标记：true 表示当天复习全部通过，false 表示有评为“重来”的复习
+	review?: boolean;
+}
 
-				contentEl.createEl('h2', { text: '📚 记忆复习' });
-				
-				this.questions.forEach((q, index) => {
-					const questionEl = contentEl.createDiv('question-container');
-					questionEl.createEl('h3', { 
-						text: `${index + 1}. ${q.question}` 
-					});
-					
-					const optionsEl = questionEl.createDiv('options-container');
-					q.options.forEach((opt, i) => {
-						const btn = optionsEl.createEl('button', {
-							text: `${String.fromCharCode(65 + i)}. ${opt}`,
-							cls: 'option-btn'
-						});
-						
-						btn.onclick = () => this.handleSelect(q, i);
-					});
-				});
+// 用纯 SVG 绘制折线图，min/max 缺省时按数据范围缩放
+function renderLineChart(containerEl: HTMLElement, title: string, points: ChartPoint[], range?: { min: number; max: number }) {
+	const chartEl = containerEl.createDiv('history-chart');
+	const latest = points.length > 0 ? points[points.length - 1].value : 0;
+	chartEl.createDiv({ cls: 'history-chart-title', text: t('history.chartTitle', { title, value: Number(latest.toFixed(2)) }) });
+
+	const values = points.map(point => point.value);
+	const min = range ? range.min : Math.min(...values);
+	const max = range ? range.max : Math.max(...values);
+	const span = max - min || 1;
+	// 按 UTC 换算日期键，避免夏令时让相邻两天相差不足一整天
+	const dayNumber = (day: string) => {
+		const [year, month, date] = day.split('-').map(Number);
+		return Date.UTC(year, month - 1, date) / DAY_MS;
+	};
+	const firstDay = points.length > 0 ? dayNumber(points[0].day) : 0;
+	const daySpan = points.length > 0 ? dayNumber(points[points.length - 1].day) - firstDay : 0;
+	const x = (point: ChartPoint) => CHART_PADDING + (daySpan > 0 ? (dayNumber(point.day) - firstDay) / daySpan : 0.5) * (CHART_WIDTH - 2 * CHART_PADDING);
+	const y = (value: number) => CHART_HEIGHT - CHART_PADDING - (value - min) / span * (CHART_HEIGHT - 2 * CHART_PADDING);
+
+	const svg = chartEl.createSvg('svg', {
+		cls: 'history-chart-svg',
+		attr: { viewBox: `0 0 ${CHART_WIDTH} ${CHART_HEIGHT}` }
+	});
+	svg.createSvg('polyline', {
+		cls: 'history-chart-line',
+		attr: { points: points.map(point => `${x(point).toFixed(1)},${y(point.value).toFixed(1)}`).join(' ') }
+	});
+	points.forEach(point => {
+		if (point.review === undefined) return;
+		svg.createSvg('circle', {
+			cls: point.review ? 'history-chart-review is-correct' : 'history-chart-review is-wrong',
+			attr: { cx: x(point).toFixed(1), cy: y(point.value).toFixed(1), r: 3 }
+		});
+	});
+}
 
-				this.addControlButtons();
-
-				// 在问题容器添加CSS处理长文本
-				const style = document.createElement('style');
-				style.textContent = `
-					.question-container {
-						max-width: 600px;
-						margin: 1rem 0;
-						padding: 1rem;
-						background: var(--background-secondary);
-						border-radius: 8px;
-					}
-					.question-container h3 {
-						font-size: 1.1rem;
-						margin: 0 0 1rem;
-						line-height: 1.4;
-						display: -webkit-box;
-						-webkit-line-clamp: 3;
-						-webkit-box-orient: vertical;
-						overflow: hidden;
-					}
-					.options-container {
-						display: grid;
-						gap: 0.5rem;
-					}
-					.option-btn {
-						white-space: normal;
-						text-align: left;
-						padding: 0.8rem;
-						word-break: break-word;
-					}
-				`;
-				this.contentEl.appendChild(style);
-			}
+class HistoryView extends ItemView {
+	constructor(leaf: WorkspaceLeaf, private plugin: MyPlugin) {
+		super(leaf);
+	}
 
-			private handleSelect(question: Question, selectedIndex: number) {
-				const isCorrect = selectedIndex === question.correctIndex;
-				new Notice(isCorrect ? '✅ 正确！' : '❌ 错误，请再想想');
-				
-				// 更新记忆强度
-				this.plugin.dataManager.updateTestResult(question.filePath, isCorrect);
-			}
+	getViewType(): string {
+		return HISTORY_VIEW_TYPE;
+	}
 
-			private addControlButtons() {
-				const controls = this.contentEl.createDiv('review-controls');
-				const closeButton = controls.createEl('button', { text: '关闭' });
-				closeButton.onclick = () => this.close();
-			}
+	getDisplayText(): string {
+		return t('history.title');
+	}
+
+	getIcon(): string {
+		return 'line-chart';
+	}
+
+	async onOpen() {
+		this.contentEl.addClass('mindforge-history');
+		this.registerEvent(this.app.workspace.on('file-open', () => this.render()));
+		this.render();
+	}
+
+	async onClose() {
+		this.contentEl.empty();
+	}
+
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const file = this.app.workspace.getActiveFile();
+		if (!file || file.extension !== 'md') {
+			contentEl.createEl('p', { text: t('history.noFile') });
+			return;
 		}
 
-		new ReviewModal(this.plugin, this.questions).open();
+		contentEl.createEl('h4', { text: file.basename });
+		const stats = this.plugin.dataManager.getInteractionStats(file.path);
+		if (stats) {
+			const minutes = (ms: number) => Math.round(ms / 60000);
+			contentEl.createDiv({
+				cls: 'history-summary',
+				text: t('history.engagement', {
+					reading: minutes(stats.readingTime),
+					editing: minutes(stats.editingTime),
+					scroll: (stats.scrollDepth * 100).toFixed(0),
+					links: stats.linkCount
+				})
+			});
+		}
+		const history = this.plugin.dataManager.getHistory(file.path);
+		if (history.length === 0) {
+			contentEl.createEl('p', { text: t('history.empty') });
+			return;
+		}
+		contentEl.createDiv({ cls: 'history-range', text: `${history[0].day} — ${history[history.length - 1].day}` });
+
+		renderLineChart(contentEl, t('metric.weight'), history.map(entry => ({ day: entry.day, value: entry.weight })));
+		// 记忆强度曲线上标出复习日，可以看出复习是否把遗忘曲线拉回
+		renderLineChart(contentEl, t('metric.strength'), history.map(entry => ({
+			day: entry.day,
+			value: entry.strength,
+			review: entry.reviews > 0 ? entry.lapses === 0 : undefined
+		})), { min: 0, max: 1 });
+		renderLineChart(contentEl, t('metric.interactions'), history.map(entry => ({ day: entry.day, value: entry.interactions })), {
+			min: 0,
+			max: Math.max(1, ...history.map(entry => entry.interactions))
+		});
+
+		const reviews = history.reduce((sum, entry) => sum + entry.reviews, 0);
+		const lapses = history.reduce((sum, entry) => sum + entry.lapses, 0);
+		contentEl.createDiv({ cls: 'history-summary', text: t('history.reviews', { reviews, lapses }) });
+
+		this.renderStageChanges(contentEl, history);
 	}
-}
 
-// 确保Question接口已定义
-interface Question {
-	question: string;
-	options: string[];
-	correctIndex: number;
-	bloomLevel: number;
-	filePath: string;
+	private renderStageChanges(containerEl: HTMLElement, history: HistoryEntry[]) {
+		const changes: HistoryEntry[] = [];
+		for (const entry of history) {
+			if (!entry.stage) continue;
+			const previous = changes[changes.length - 1];
+			if (!previous || previous.stage !== entry.stage) changes.push(entry);
+		}
+		if (changes.length === 0) return;
+
+		containerEl.createEl('h5', { text: t('history.stageChanges') });
+		const list = containerEl.createEl('ul', { cls: 'history-stages' });
+		changes.forEach(entry => list.createEl('li', { text: t('history.stageEntry', { day: entry.day, stage: stageName(entry.stage!) }) }));
+	}
 }